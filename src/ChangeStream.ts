@@ -0,0 +1,326 @@
+import { randomUUID } from 'crypto'
+import { EventEmitter } from 'events'
+import { Emitter } from './Emitter'
+import { EvictionReason, LRUMap, LRUSizedMap } from './LRUMap'
+
+/**
+ * A mutation of a map, numbered in the order its origin made it. The
+ * epoch identifies the stream of the origin, whose numbers start over
+ * when a replica is created again with the same origin
+ */
+export type ChangeEvent<K, V> =
+  | { type: 'set', origin: string, epoch: string, seq: number, key: K, value: V, expiresAt: number, staleAt: number, tags?: string[] }
+  | { type: 'remove', origin: string, epoch: string, seq: number, key: K }
+  | { type: 'evict', origin: string, epoch: string, seq: number, key: K, reason: 'evict' | 'expire' }
+  | { type: 'clear', origin: string, epoch: string, seq: number }
+
+/**
+ * Carries change events between the streams of replicas. A transport may
+ * deliver the events a stream publishes back to that same stream, which
+ * ignores them
+ */
+export interface ChangeTransport<K, V> {
+  publish(event: ChangeEvent<K, V>): void
+  /**
+   * Listens for published events, returning a function that stops listening
+   */
+  subscribe(listener: (event: ChangeEvent<K, V>) => void): () => void
+}
+
+export interface ChangeStreamOptions {
+  /**
+   * The ID of the replica, stamped on the events it publishes. Defaults
+   * to a random UUID
+   */
+  origin?: string
+  /**
+   * Whether remote evictions, which the origin made for capacity or
+   * expiration, also remove the key from the replica. Defaults to false,
+   * as each replica evicts for its own capacity
+   */
+  applyEvictions?: boolean
+  /**
+   * The clock of the replica, which must agree with the clocks of the
+   * other replicas for remote expiration times. Defaults to Date.now
+   */
+  clock?: () => number
+}
+
+/**
+ * Omits properties from each member of a union
+ */
+type DistributiveOmit<T, P extends PropertyKey> = T extends unknown ? Omit<T, P> : never
+
+type ChangeEvents<K, V> = {
+  change: (event: ChangeEvent<K, V>) => void,
+}
+
+/**
+ * Streams the mutations of an LRUMap or LRUSizedMap as ordered change
+ * events, and applies the events of other replicas to it without
+ * publishing them again. Sets, removals and clears keep replicas
+ * coherent, while evictions are published for information, and only
+ * applied with the applyEvictions option
+ *
+ * @export
+ * @class ChangeStream
+ * @template K the type of the keys
+ * @template V the type of the values
+ */
+export class ChangeStream<K, V> {
+
+  /**
+   * The ID stamped on the events published by this stream
+   *
+   * @type {string}
+   * @memberof ChangeStream
+   */
+  readonly origin: string
+
+  /**
+   * The random ID of this stream, stamped on the events it publishes
+   *
+   * @type {string}
+   * @memberof ChangeStream
+   */
+  readonly epoch: string = randomUUID()
+
+  private seq = 0
+  private applying = false
+  private readonly events = new Emitter<ChangeEvents<K, V>>()
+  private readonly clock: () => number
+
+  // The epoch and last event applied from each remote origin
+  private readonly applied: Map<string, { epoch: string, seq: number }> = new Map()
+
+  // The former epochs of remote origins, whose late events are ignored
+  private readonly retired: Set<string> = new Set()
+
+  private readonly onSet = (key: K, value: V, { expiresAt, staleAt, tags }: { expiresAt: number, staleAt: number, tags?: string[] }) => {
+    this.publish({ type: 'set', key, value, expiresAt, staleAt, tags })
+  }
+
+  private readonly onEvict = (key: K, value: V, reason: EvictionReason) => {
+    // Replaced and cleared values are covered by their set and clear events,
+    // while a rejected set leaves the key absent, as a removal does
+    if (reason === 'delete' || reason === 'reject')
+      this.publish({ type: 'remove', key })
+    else if (reason === 'evict' || reason === 'demote' || reason === 'expire')
+      this.publish({ type: 'evict', key, reason: reason === 'expire' ? 'expire' : 'evict' })
+  }
+
+  private readonly onClear = () => {
+    this.publish({ type: 'clear' })
+  }
+
+  /**
+   * Creates a stream of the changes of a map
+   *
+   * @param {(LRUMap<K, V> | LRUSizedMap<K, V>)} map the replica
+   * @param {ChangeStreamOptions} [options]
+   * @memberof ChangeStream
+   */
+  constructor(readonly map: LRUMap<K, V> | LRUSizedMap<K, V>, private readonly options: ChangeStreamOptions = {}) {
+    this.origin = options.origin ?? randomUUID()
+    this.clock = options.clock ?? Date.now
+    this.map.on('set', this.onSet)
+    this.map.on('evict', this.onEvict)
+    this.map.on('clear', this.onClear)
+  }
+
+  /**
+   * Listens for the changes of the map, in order
+   *
+   * @param {(event: ChangeEvent<K, V>) => void} listener
+   * @return {*}  {() => void} a function that stops listening
+   * @memberof ChangeStream
+   */
+  subscribe(listener: (event: ChangeEvent<K, V>) => void): () => void {
+    this.events.on('change', listener)
+    return () => this.events.off('change', listener)
+  }
+
+  /**
+   * Publishes the changes of the map to a transport, and applies the
+   * events of other replicas it delivers
+   *
+   * @param {ChangeTransport<K, V>} transport
+   * @return {*}  {() => void} a function that disconnects the transport
+   * @memberof ChangeStream
+   */
+  pipe(transport: ChangeTransport<K, V>): () => void {
+    const unsubscribe = this.subscribe(event => transport.publish(event))
+    const stop = transport.subscribe(event => this.applyRemote(event))
+    return () => {
+      unsubscribe()
+      stop()
+    }
+  }
+
+  /**
+   * Applies the change of another replica to the map, without publishing
+   * it, nor the evictions it causes. Events of this stream's own origin,
+   * and events older than the last one applied from their origin, are
+   * ignored. An event of a new epoch of an origin starts its numbering
+   * over, after which the events of its former epochs are ignored
+   *
+   * @param {ChangeEvent<K, V>} event
+   * @return {*}  {boolean} whether the event was applied
+   * @memberof ChangeStream
+   */
+  applyRemote(event: ChangeEvent<K, V>): boolean {
+    if (event.origin === this.origin || this.retired.has(event.epoch))
+      return false
+    const applied = this.applied.get(event.origin)
+    if (applied?.epoch === event.epoch && event.seq <= applied.seq)
+      return false
+    if (applied && applied.epoch !== event.epoch)
+      this.retired.add(applied.epoch)
+    this.applied.set(event.origin, { epoch: event.epoch, seq: event.seq })
+    this.applying = true
+    try {
+      switch (event.type) {
+        case 'set':
+          this.applySet(event.key, event.value, event.expiresAt, event.staleAt, event.tags)
+          break
+        case 'remove':
+          this.map.delete(event.key)
+          break
+        case 'evict':
+          if (this.options.applyEvictions)
+            this.map.delete(event.key)
+          break
+        case 'clear':
+          this.map.clear()
+          break
+      }
+    } finally {
+      this.applying = false
+    }
+    return true
+  }
+
+  /**
+   * Stops streaming the changes of the map
+   *
+   * @memberof ChangeStream
+   */
+  close() {
+    this.map.off('set', this.onSet)
+    this.map.off('evict', this.onEvict)
+    this.map.off('clear', this.onClear)
+  }
+
+  /**
+   * Sets a remote value with the time it has left to live and its tags,
+   * or removes its key if it already expired
+   *
+   * @private
+   * @param {K} key
+   * @param {V} value
+   * @param {number} expiresAt
+   * @param {number} staleAt
+   * @param {string[]} [tags]
+   * @memberof ChangeStream
+   */
+  private applySet(key: K, value: V, expiresAt: number, staleAt: number, tags?: string[]) {
+    const now = this.clock()
+    if (expiresAt > 0 && expiresAt <= now) {
+      this.map.delete(key)
+      return
+    }
+    this.map.set(key, value, {
+      ttl: expiresAt > 0 ? expiresAt - now : 0,
+      // A value already stale goes stale at once
+      staleAfter: staleAt > 0 ? Math.max(staleAt - now, 1) : 0,
+      tags,
+    })
+  }
+
+  private publish(change: DistributiveOmit<ChangeEvent<K, V>, 'origin' | 'epoch' | 'seq'>) {
+    if (this.applying)
+      return
+    const event = { ...change, origin: this.origin, epoch: this.epoch, seq: ++this.seq } as ChangeEvent<K, V>
+    this.events.emit('change', event)
+  }
+}
+
+/**
+ * A transport between replicas of one process, over an EventEmitter
+ *
+ * @export
+ * @class EmitterTransport
+ * @template K the type of the keys
+ * @template V the type of the values
+ */
+export class EmitterTransport<K, V> implements ChangeTransport<K, V> {
+
+  /**
+   * Creates a transport over an event of an emitter
+   *
+   * @param {EventEmitter} [emitter] the emitter shared by the replicas, a new one by default
+   * @param {string} [event] the event carrying the changes, 'change' by default
+   * @memberof EmitterTransport
+   */
+  constructor(readonly emitter: EventEmitter = new EventEmitter(), readonly event: string = 'change') { }
+
+  publish(event: ChangeEvent<K, V>) {
+    this.emitter.emit(this.event, event)
+  }
+
+  subscribe(listener: (event: ChangeEvent<K, V>) => void): () => void {
+    this.emitter.on(this.event, listener)
+    return () => this.emitter.off(this.event, listener)
+  }
+}
+
+/**
+ * A BroadcastChannel or MessagePort, of the browser or of NodeJS
+ */
+export interface MessageChannelLike {
+  postMessage(message: any): void
+}
+
+/**
+ * The EventTarget methods of BroadcastChannel and MessagePort, which are
+ * missing from older NodeJS typings
+ */
+interface MessageEventTarget {
+  addEventListener(type: 'message', listener: (message: { data: unknown }) => void): void
+  removeEventListener(type: 'message', listener: (message: { data: unknown }) => void): void
+  start?(): void
+}
+
+/**
+ * A transport between replicas of different threads, windows or
+ * processes, over a BroadcastChannel or MessagePort. Events are copied
+ * with the structured clone algorithm, so keys and values must be
+ * cloneable. Closing the channel is left to its owner
+ *
+ * @export
+ * @class MessageTransport
+ * @template K the type of the keys
+ * @template V the type of the values
+ */
+export class MessageTransport<K, V> implements ChangeTransport<K, V> {
+
+  /**
+   * Creates a transport over a channel
+   *
+   * @param {MessageChannelLike} channel a BroadcastChannel or MessagePort
+   * @memberof MessageTransport
+   */
+  constructor(readonly channel: MessageChannelLike) { }
+
+  publish(event: ChangeEvent<K, V>) {
+    this.channel.postMessage(event)
+  }
+
+  subscribe(listener: (event: ChangeEvent<K, V>) => void): () => void {
+    const onMessage = (message: { data: unknown }) => listener(message.data as ChangeEvent<K, V>)
+    const target = this.channel as unknown as MessageEventTarget
+    target.addEventListener('message', onMessage)
+    target.start?.()
+    return () => target.removeEventListener('message', onMessage)
+  }
+}
@@ -0,0 +1,125 @@
+import { createHash } from 'crypto'
+import { mkdirSync } from 'fs'
+import { readdir, readFile, rename, unlink, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { SecondaryStore, StoredValue } from './SecondaryStore'
+import { identitySerializer, ValueSerializer } from './Snapshot'
+
+export interface DirectoryStoreOptions<V> {
+  /**
+   * Converts values to and from JSON-safe data. Defaults to the identity
+   * serializer, so values must be JSON-safe
+   */
+  serializer?: ValueSerializer<V>
+}
+
+/**
+ * The contents of the file of a value
+ */
+interface ValueFile<K> {
+  key: K
+  value: unknown
+  expiresAt?: number
+}
+
+/**
+ * A secondary store keeping each value in a JSON file of a directory.
+ * Files are named by a hash of their key's JSON, and hold the key too,
+ * so a hash collision is never mistaken for a hit. Files are written
+ * atomically by writing a temporary file and renaming it
+ *
+ * @export
+ * @class DirectoryStore
+ * @template K the type of the keys, which must be JSON-safe
+ * @template V the type of the values
+ */
+export class DirectoryStore<K, V> implements SecondaryStore<K, V> {
+
+  private readonly serializer: ValueSerializer<V>
+  // Distinguishes the temporary files of concurrent writes
+  private writes = 0
+
+  /**
+   * Creates a directory store, creating the directory if needed
+   *
+   * @param {string} directory
+   * @param {DirectoryStoreOptions<V>} [options]
+   * @memberof DirectoryStore
+   */
+  constructor(readonly directory: string, options: DirectoryStoreOptions<V> = {}) {
+    this.serializer = options.serializer ?? identitySerializer
+    mkdirSync(directory, { recursive: true })
+  }
+
+  async get(key: K): Promise<StoredValue<V> | undefined> {
+    let data: string
+    try {
+      data = await readFile(this.pathOf(key), 'utf8')
+    } catch (error) {
+      if (isMissing(error))
+        return undefined
+      throw error
+    }
+    const file: ValueFile<K> = JSON.parse(data)
+    if (JSON.stringify(file.key) !== JSON.stringify(key))
+      return undefined
+    return { value: this.serializer.deserialize(file.value), expiresAt: file.expiresAt ?? 0 }
+  }
+
+  async set(key: K, value: V, expiresAt: number = 0): Promise<void> {
+    const path = this.pathOf(key)
+    const temp = `${path}.${process.pid}.${this.writes++}.tmp`
+    const file: ValueFile<K> = { key, value: this.serializer.serialize(value) }
+    if (expiresAt)
+      file.expiresAt = expiresAt
+    await writeFile(temp, JSON.stringify(file))
+    await rename(temp, path)
+  }
+
+  async delete(key: K): Promise<boolean> {
+    if (await this.get(key) === undefined)
+      return false
+    return removeFile(this.pathOf(key))
+  }
+
+  async clear(): Promise<void> {
+    for (const name of await readdir(this.directory)) {
+      if (name.endsWith('.json'))
+        await removeFile(join(this.directory, name))
+    }
+  }
+
+  /**
+   * Gets the path of the file of a key
+   *
+   * @private
+   * @param {K} key
+   * @return {*}  {string}
+   * @throws {Error} if the key cannot be serialized to JSON
+   * @memberof DirectoryStore
+   */
+  private pathOf(key: K): string {
+    if (typeof key === 'symbol' || typeof key === 'function' || key === undefined)
+      throw new Error(`Cannot store ${typeof key} key '${String(key)}' in a directory`)
+    const hash = createHash('sha1').update(JSON.stringify(key)).digest('hex')
+    return join(this.directory, `${hash}.json`)
+  }
+}
+
+/**
+ * Removes a file, resolving whether it existed
+ */
+async function removeFile(path: string): Promise<boolean> {
+  try {
+    await unlink(path)
+    return true
+  } catch (error) {
+    if (isMissing(error))
+      return false
+    throw error
+  }
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT'
+}
@@ -0,0 +1,85 @@
+/**
+ * Maps each event name to the signature of its listeners
+ */
+export type EventMap = { [event: string]: (...args: any[]) => void }
+
+/**
+ * A lightweight, dependency-free event emitter that works in both
+ * NodeJS and the browser
+ *
+ * @export
+ * @class Emitter
+ * @template E the events and their listener signatures
+ */
+export class Emitter<E extends EventMap> {
+
+  private readonly listeners: { [N in keyof E]?: Set<E[N]> } = {}
+
+  /**
+   * Registers a listener for an event
+   *
+   * @template N
+   * @param {N} event the event name
+   * @param {E[N]} listener
+   * @memberof Emitter
+   */
+  on<N extends keyof E>(event: N, listener: E[N]) {
+    const listeners = this.listeners[event] ?? new Set()
+    listeners.add(listener)
+    this.listeners[event] = listeners
+  }
+
+  /**
+   * Removes a listener from an event
+   *
+   * @template N
+   * @param {N} event the event name
+   * @param {E[N]} listener
+   * @memberof Emitter
+   */
+  off<N extends keyof E>(event: N, listener: E[N]) {
+    const listeners = this.listeners[event]
+    if (!listeners)
+      return
+    listeners.delete(listener)
+    if (!listeners.size)
+      delete this.listeners[event]
+  }
+
+  /**
+   * Checks whether an event has any listeners
+   *
+   * @param {keyof E} event the event name
+   * @return {*}  {boolean}
+   * @memberof Emitter
+   */
+  has(event: keyof E): boolean {
+    return this.listeners[event] !== undefined
+  }
+
+  /**
+   * Calls every listener of an event with the given arguments. Every
+   * listener is called even if an earlier one throws, after which the
+   * first error is rethrown
+   *
+   * @template N
+   * @param {N} event the event name
+   * @param {...Parameters<E[N]>} args
+   * @memberof Emitter
+   */
+  emit<N extends keyof E>(event: N, ...args: Parameters<E[N]>) {
+    const listeners = this.listeners[event]
+    if (!listeners)
+      return
+    let failure: { error: unknown }
+    for (const listener of [...listeners]) {
+      try {
+        listener(...args)
+      } catch (error) {
+        failure = failure ?? { error }
+      }
+    }
+    if (failure)
+      throw failure.error
+  }
+}
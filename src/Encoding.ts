@@ -0,0 +1,67 @@
+/**
+ * How the byte size of a string is counted.
+ *
+ * - utf8: the number of bytes of its UTF-8 encoding
+ * - utf16: two bytes per UTF-16 code unit
+ * - code-units: one per UTF-16 code unit, i.e. its length
+ */
+export type StringEncoding = 'utf8' | 'utf16' | 'code-units'
+
+const ENCODINGS: StringEncoding[] = ['utf8', 'utf16', 'code-units']
+
+/**
+ * Asserts a string encoding is one of the supported modes
+ *
+ * @export
+ * @param {StringEncoding} encoding
+ * @throws {Error} if the encoding is not supported
+ */
+export function assertEncodingIsValid(encoding: StringEncoding) {
+  if (!ENCODINGS.includes(encoding))
+    throw new Error(`Invalid string encoding '${encoding}'. Must be 'utf8', 'utf16' or 'code-units'`)
+}
+
+/**
+ * Gets the byte size of a string in the given encoding. Lone surrogates
+ * are counted as the three bytes of the replacement character they are
+ * encoded as in UTF-8
+ *
+ * @export
+ * @param {string} value
+ * @param {StringEncoding} [encoding='utf8']
+ * @return {*}  {number}
+ */
+export function stringByteLength(value: string, encoding: StringEncoding = 'utf8'): number {
+  switch (encoding) {
+    case 'code-units':
+      return value.length
+    case 'utf16':
+      return value.length * 2
+    case 'utf8':
+      return utf8ByteLength(value)
+  }
+  assertEncodingIsValid(encoding)
+}
+
+function utf8ByteLength(value: string): number {
+  let bytes = 0
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i)
+    if (code < 0x80) {
+      bytes += 1
+    } else if (code < 0x800) {
+      bytes += 2
+    } else if (code >= 0xd800 && code <= 0xdbff && i + 1 < value.length) {
+      const low = value.charCodeAt(i + 1)
+      if (low >= 0xdc00 && low <= 0xdfff) {
+        bytes += 4
+        i++
+      } else {
+        bytes += 3
+      }
+    } else {
+      bytes += 3
+    }
+  }
+  return bytes
+}
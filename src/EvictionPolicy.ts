@@ -0,0 +1,619 @@
+import { FrequencySketch } from './FrequencySketch'
+import { KeyEquals, KeyHash, KeyIndex } from './KeyIndex'
+
+/**
+ * An entry of the map, as seen by an eviction policy. Policies track
+ * entries by identity
+ */
+export interface PolicyNode<K> {
+  readonly key: K
+}
+
+/**
+ * Decides which entry a map evicts when it overflows its capacity.
+ * Weights are counted in the map's capacity unit: 1 per entry for
+ * the LRUMap, and the entry's bytes for the LRUSizedMap
+ */
+export interface EvictionPolicy<K> {
+  /**
+   * Starts tracking an entry added to the map
+   */
+  insert(node: PolicyNode<K>, weight: number): void
+  /**
+   * Registers a read or an overwrite of a tracked entry
+   */
+  access(node: PolicyNode<K>, weight: number): void
+  /**
+   * Stops tracking an entry that left the map, unless already untracked
+   */
+  remove(node: PolicyNode<K>): void
+  /**
+   * Gets the entry evict would choose next, without evicting it
+   */
+  peek(): PolicyNode<K> | undefined
+  /**
+   * Chooses the entry to evict next and stops tracking it
+   */
+  evict(): PolicyNode<K> | undefined
+  /**
+   * Stops tracking all entries
+   */
+  clear(): void
+  /**
+   * Adapts to a new capacity of the map, or -1 if unbounded. The map
+   * evicts the entries overflowing it right after
+   */
+  resize?(capacity: number): void
+}
+
+/**
+ * The settings of the map an eviction policy is created for
+ */
+export interface PolicyContext<K> {
+  /**
+   * The capacity of the map, or -1 if unbounded
+   */
+  capacity: number
+  /**
+   * An estimate of the number of entries the map holds
+   */
+  expectedEntries: number
+  keyHash?: KeyHash<K>
+  keyEquals?: KeyEquals<K>
+}
+
+export type PolicyFactory<K> = (context: PolicyContext<K>) => EvictionPolicy<K>
+
+/**
+ * The built-in eviction policies. 'lru' evicts the least recently used
+ * entry, and is the default
+ */
+export type PolicyName = 'lru' | 'lfu' | 'slru' | '2q' | 'arc' | 'w-tinylfu'
+
+const POLICIES: PolicyName[] = ['lru', 'lfu', 'slru', '2q', 'arc', 'w-tinylfu']
+
+/**
+ * Creates the eviction policy of a map. The 'lru' policy is built into
+ * the map's recency list, so no policy is created for it
+ *
+ * @export
+ * @param {(PolicyName | PolicyFactory<K>)} policy
+ * @param {PolicyContext<K>} context
+ * @return {*}  {(EvictionPolicy<K> | null)}
+ * @throws {Error} if the policy is not a known name or a factory
+ */
+export function createPolicy<K>(policy: PolicyName | PolicyFactory<K>, context: PolicyContext<K>): EvictionPolicy<K> | null {
+  if (typeof policy === 'function')
+    return policy(context)
+  switch (policy) {
+    case 'lru':
+      return null
+    case 'lfu':
+      return new LFUPolicy()
+    case 'slru':
+      return new SLRUPolicy(context)
+    case '2q':
+      return new TwoQueuePolicy(context)
+    case 'arc':
+      return new ARCPolicy(context)
+    case 'w-tinylfu':
+      return new WindowTinyLFUPolicy(context)
+  }
+  throw new Error(`Invalid eviction policy '${policy}'. Must be one of ${POLICIES.map(name => `'${name}'`).join(', ')} or a factory`)
+}
+
+/**
+ * Items ordered from oldest to newest, with their total weight
+ */
+class Segment<T> {
+
+  // Items and their weights, in insertion order
+  private readonly items: Map<T, number> = new Map()
+  weight = 0
+
+  get size(): number {
+    return this.items.size
+  }
+
+  has(item: T): boolean {
+    return this.items.has(item)
+  }
+
+  weightOf(item: T): number | undefined {
+    return this.items.get(item)
+  }
+
+  /**
+   * Adds an item as the newest, or moves it there if already present
+   */
+  push(item: T, weight: number) {
+    this.delete(item)
+    this.items.set(item, weight)
+    this.weight += weight
+  }
+
+  delete(item: T): boolean {
+    const weight = this.items.get(item)
+    if (weight === undefined)
+      return false
+    this.items.delete(item)
+    this.weight -= weight
+    return true
+  }
+
+  /**
+   * Gets the oldest item
+   */
+  first(): T | undefined {
+    return this.items.keys().next().value
+  }
+
+  /**
+   * Removes the oldest item, returning it along with its weight
+   */
+  shift(): [T, number] | undefined {
+    const first = this.items.entries().next()
+    if (first.done)
+      return undefined
+    this.delete(first.value[0])
+    return first.value
+  }
+
+  clear() {
+    this.items.clear()
+    this.weight = 0
+  }
+}
+
+/**
+ * The keys of recently evicted entries, which adaptive policies use to
+ * recognize entries that were evicted too early
+ */
+class GhostList<K> {
+
+  private readonly index: KeyIndex<K, PolicyNode<K>>
+  private readonly order: Segment<PolicyNode<K>> = new Segment()
+
+  constructor(context: PolicyContext<K>) {
+    this.index = new KeyIndex(context.keyHash, context.keyEquals)
+  }
+
+  get weight(): number {
+    return this.order.weight
+  }
+
+  add(key: K, weight: number) {
+    this.delete(key)
+    const ghost = { key }
+    this.index.set(key, ghost)
+    this.order.push(ghost, weight)
+  }
+
+  /**
+   * Removes a key, returning whether it was present
+   */
+  delete(key: K): boolean {
+    const ghost = this.index.get(key)
+    if (ghost === undefined)
+      return false
+    this.index.delete(key)
+    this.order.delete(ghost)
+    return true
+  }
+
+  /**
+   * Removes the oldest keys until the total weight fits within a limit
+   */
+  trim(limit: number) {
+    while (this.order.weight > limit && this.order.size) {
+      const [ghost] = this.order.shift()
+      this.index.delete(ghost.key)
+    }
+  }
+
+  clear() {
+    this.index.clear()
+    this.order.clear()
+  }
+}
+
+function boundOf(capacity: number): number {
+  return capacity < 0 ? Infinity : capacity
+}
+
+/**
+ * Evicts the least frequently used entry, breaking ties by evicting the
+ * least recently used one. Frequencies are never aged
+ */
+class LFUPolicy<K> implements EvictionPolicy<K> {
+
+  private readonly counts: Map<PolicyNode<K>, number> = new Map()
+  // Nodes by frequency, each from least to most recently used
+  private readonly buckets: Map<number, Set<PolicyNode<K>>> = new Map()
+  private minCount = 0
+
+  insert(node: PolicyNode<K>) {
+    this.counts.set(node, 1)
+    this.bucketOf(1).add(node)
+    this.minCount = 1
+  }
+
+  access(node: PolicyNode<K>) {
+    const count = this.counts.get(node)
+    if (count === undefined)
+      return
+    this.leave(node, count)
+    this.counts.set(node, count + 1)
+    this.bucketOf(count + 1).add(node)
+  }
+
+  remove(node: PolicyNode<K>) {
+    const count = this.counts.get(node)
+    if (count === undefined)
+      return
+    this.leave(node, count)
+    this.counts.delete(node)
+  }
+
+  peek(): PolicyNode<K> | undefined {
+    if (!this.counts.size)
+      return undefined
+    if (!this.buckets.has(this.minCount))
+      this.minCount = Math.min(...this.buckets.keys())
+    return this.buckets.get(this.minCount).values().next().value
+  }
+
+  evict(): PolicyNode<K> | undefined {
+    const node = this.peek()
+    if (node)
+      this.remove(node)
+    return node
+  }
+
+  clear() {
+    this.counts.clear()
+    this.buckets.clear()
+    this.minCount = 0
+  }
+
+  private bucketOf(count: number): Set<PolicyNode<K>> {
+    let bucket = this.buckets.get(count)
+    if (!bucket) {
+      bucket = new Set()
+      this.buckets.set(count, bucket)
+    }
+    return bucket
+  }
+
+  private leave(node: PolicyNode<K>, count: number) {
+    const bucket = this.buckets.get(count)
+    bucket.delete(node)
+    if (!bucket.size)
+      this.buckets.delete(count)
+  }
+}
+
+/**
+ * Segmented LRU. New entries enter a probation segment, and move to a
+ * protected segment once accessed again. Entries overflowing the
+ * protected segment are demoted back to probation, and entries are
+ * evicted from probation first, so a scan of one-time reads cannot
+ * flush the entries in the protected segment
+ */
+class SLRUPolicy<K> implements EvictionPolicy<K> {
+
+  private readonly probation: Segment<PolicyNode<K>> = new Segment()
+  private readonly protected: Segment<PolicyNode<K>> = new Segment()
+  private protectedLimit: number
+
+  constructor(context: PolicyContext<K>, private readonly protectedRatio = 0.8) {
+    this.resize(context.capacity)
+  }
+
+  insert(node: PolicyNode<K>, weight: number) {
+    this.probation.push(node, weight)
+  }
+
+  access(node: PolicyNode<K>, weight: number) {
+    if (this.protected.has(node)) {
+      this.protected.push(node, weight)
+      return
+    }
+    if (!this.probation.delete(node))
+      return
+    this.protected.push(node, weight)
+    while (this.protected.weight > this.protectedLimit && this.protected.size > 1) {
+      const [demoted, demotedWeight] = this.protected.shift()
+      this.probation.push(demoted, demotedWeight)
+    }
+  }
+
+  remove(node: PolicyNode<K>) {
+    if (!this.probation.delete(node))
+      this.protected.delete(node)
+  }
+
+  peek(): PolicyNode<K> | undefined {
+    return this.probation.first() ?? this.protected.first()
+  }
+
+  evict(): PolicyNode<K> | undefined {
+    return (this.probation.shift() ?? this.protected.shift())?.[0]
+  }
+
+  clear() {
+    this.probation.clear()
+    this.protected.clear()
+  }
+
+  resize(capacity: number) {
+    this.protectedLimit = boundOf(capacity) * this.protectedRatio
+  }
+}
+
+/**
+ * The 2Q policy. New entries enter a FIFO queue, and are remembered in a
+ * ghost queue once evicted from it. Entries set again while remembered
+ * enter the main LRU queue, where frequently used entries are kept
+ */
+class TwoQueuePolicy<K> implements EvictionPolicy<K> {
+
+  private readonly incoming: Segment<PolicyNode<K>> = new Segment()
+  private readonly main: Segment<PolicyNode<K>> = new Segment()
+  private readonly ghosts: GhostList<K>
+  private incomingLimit: number
+  private ghostLimit: number
+
+  constructor(context: PolicyContext<K>, private readonly incomingRatio = 0.25, private readonly ghostRatio = 0.5) {
+    this.ghosts = new GhostList(context)
+    this.resize(context.capacity)
+  }
+
+  insert(node: PolicyNode<K>, weight: number) {
+    if (this.ghosts.delete(node.key))
+      this.main.push(node, weight)
+    else
+      this.incoming.push(node, weight)
+  }
+
+  access(node: PolicyNode<K>, weight: number) {
+    if (this.main.has(node))
+      this.main.push(node, weight)
+    else if (this.incoming.has(node))
+      this.incoming.push(node, weight)
+  }
+
+  remove(node: PolicyNode<K>) {
+    if (!this.incoming.delete(node))
+      this.main.delete(node)
+  }
+
+  peek(): PolicyNode<K> | undefined {
+    return this.evictsIncoming() ? this.incoming.first() : this.main.first()
+  }
+
+  evict(): PolicyNode<K> | undefined {
+    if (this.evictsIncoming()) {
+      const [node, weight] = this.incoming.shift()
+      this.ghosts.add(node.key, weight)
+      this.ghosts.trim(this.ghostLimit)
+      return node
+    }
+    return this.main.shift()?.[0]
+  }
+
+  clear() {
+    this.incoming.clear()
+    this.main.clear()
+    this.ghosts.clear()
+  }
+
+  resize(capacity: number) {
+    this.incomingLimit = boundOf(capacity) * this.incomingRatio
+    this.ghostLimit = boundOf(capacity) * this.ghostRatio
+    this.ghosts.trim(this.ghostLimit)
+  }
+
+  private evictsIncoming(): boolean {
+    return this.incoming.size > 0 && (this.incoming.weight > this.incomingLimit || !this.main.size)
+  }
+}
+
+/**
+ * Adaptive Replacement Cache. Entries used once and entries used more
+ * than once are kept in separate LRU lists, and the keys evicted from
+ * each are remembered in ghost lists. A set of a remembered key shifts
+ * the balance between both lists towards the one it was evicted from
+ */
+class ARCPolicy<K> implements EvictionPolicy<K> {
+
+  private readonly recent: Segment<PolicyNode<K>> = new Segment()
+  private readonly frequent: Segment<PolicyNode<K>> = new Segment()
+  private readonly recentGhosts: GhostList<K>
+  private readonly frequentGhosts: GhostList<K>
+  private capacity: number
+  // The target weight of the recent list
+  private target = 0
+
+  constructor(context: PolicyContext<K>) {
+    this.resize(context.capacity)
+    this.recentGhosts = new GhostList(context)
+    this.frequentGhosts = new GhostList(context)
+  }
+
+  insert(node: PolicyNode<K>, weight: number) {
+    const recentWeight = this.recentGhosts.weight
+    const frequentWeight = this.frequentGhosts.weight
+    if (this.recentGhosts.delete(node.key)) {
+      this.target = Math.min(this.capacity, this.target + weight * Math.max(frequentWeight / recentWeight, 1))
+      this.frequent.push(node, weight)
+    } else if (this.frequentGhosts.delete(node.key)) {
+      this.target = Math.max(0, this.target - weight * Math.max(recentWeight / frequentWeight, 1))
+      this.frequent.push(node, weight)
+    } else {
+      this.recent.push(node, weight)
+    }
+  }
+
+  access(node: PolicyNode<K>, weight: number) {
+    if (this.recent.delete(node) || this.frequent.has(node))
+      this.frequent.push(node, weight)
+  }
+
+  remove(node: PolicyNode<K>) {
+    if (!this.recent.delete(node))
+      this.frequent.delete(node)
+  }
+
+  peek(): PolicyNode<K> | undefined {
+    return this.evictsRecent() ? this.recent.first() : this.frequent.first()
+  }
+
+  evict(): PolicyNode<K> | undefined {
+    let node: PolicyNode<K>
+    if (this.evictsRecent()) {
+      const [evicted, weight] = this.recent.shift()
+      this.recentGhosts.add(evicted.key, weight)
+      node = evicted
+    } else if (this.frequent.size) {
+      const [evicted, weight] = this.frequent.shift()
+      this.frequentGhosts.add(evicted.key, weight)
+      node = evicted
+    }
+    this.recentGhosts.trim(Math.max(0, this.capacity - this.recent.weight))
+    this.frequentGhosts.trim(Math.max(0, 2 * this.capacity - this.recent.weight - this.frequent.weight - this.recentGhosts.weight))
+    return node
+  }
+
+  clear() {
+    this.recent.clear()
+    this.frequent.clear()
+    this.recentGhosts.clear()
+    this.frequentGhosts.clear()
+    this.target = 0
+  }
+
+  resize(capacity: number) {
+    this.capacity = boundOf(capacity)
+    this.target = Math.min(this.target, this.capacity)
+  }
+
+  private evictsRecent(): boolean {
+    return this.recent.size > 0 && (this.recent.weight > this.target || !this.frequent.size)
+  }
+}
+
+/**
+ * Window TinyLFU. New entries enter a small LRU window of 1% of the
+ * capacity, and entries leaving the window compete with the next victim
+ * of a main SLRU region: whichever key was seen less often, according to
+ * a frequency sketch, is evicted. Keys seen only once cannot displace
+ * the entries read frequently, while the window still lets bursts of
+ * new keys in
+ */
+class WindowTinyLFUPolicy<K> implements EvictionPolicy<K> {
+
+  private readonly window: Segment<PolicyNode<K>> = new Segment()
+  private readonly main: SLRUPolicy<K>
+  private readonly sketch: FrequencySketch<K>
+  private windowLimit: number
+  private mainLimit: number
+  private mainWeight = 0
+  // Weights of the nodes in the main region
+  private readonly weights: Map<PolicyNode<K>, number> = new Map()
+
+  constructor(context: PolicyContext<K>, private readonly windowRatio = 0.01) {
+    this.main = new SLRUPolicy(context)
+    this.sketch = new FrequencySketch(context.expectedEntries, context.keyHash)
+    this.resize(context.capacity)
+  }
+
+  insert(node: PolicyNode<K>, weight: number) {
+    this.sketch.increment(node.key)
+    this.window.push(node, weight)
+    // Entries overflowing the window move to the main region while it has room
+    while (this.window.weight > this.windowLimit && this.window.size) {
+      const first = this.window.first()
+      const firstWeight = this.window.weightOf(first)
+      if (this.mainWeight + firstWeight > this.mainLimit)
+        break
+      this.window.delete(first)
+      this.admit(first, firstWeight)
+    }
+  }
+
+  access(node: PolicyNode<K>, weight: number) {
+    this.sketch.increment(node.key)
+    if (this.window.has(node)) {
+      this.window.push(node, weight)
+    } else if (this.weights.has(node)) {
+      this.mainWeight += weight - this.weights.get(node)
+      this.weights.set(node, weight)
+      this.main.access(node, weight)
+    }
+  }
+
+  remove(node: PolicyNode<K>) {
+    if (this.window.delete(node))
+      return
+    const weight = this.weights.get(node)
+    if (weight === undefined)
+      return
+    this.weights.delete(node)
+    this.mainWeight -= weight
+    this.main.remove(node)
+  }
+
+  peek(): PolicyNode<K> | undefined {
+    const candidate = this.candidate()
+    const victim = this.main.peek()
+    if (!candidate || !victim)
+      return candidate ?? victim ?? this.window.first()
+    return this.sketch.frequency(candidate.key) > this.sketch.frequency(victim.key) ? victim : candidate
+  }
+
+  evict(): PolicyNode<K> | undefined {
+    const node = this.peek()
+    if (!node)
+      return undefined
+    const candidate = this.candidate()
+    if (candidate && candidate !== node) {
+      // The candidate wins over the main victim, and takes its place
+      const weight = this.window.weightOf(candidate)
+      this.window.delete(candidate)
+      this.remove(node)
+      this.admit(candidate, weight)
+    } else {
+      this.remove(node)
+    }
+    return node
+  }
+
+  clear() {
+    this.window.clear()
+    this.main.clear()
+    this.weights.clear()
+    this.mainWeight = 0
+  }
+
+  resize(capacity: number) {
+    const bound = boundOf(capacity)
+    this.windowLimit = bound * this.windowRatio
+    this.mainLimit = bound === Infinity ? Infinity : bound - this.windowLimit
+    this.main.resize(this.mainLimit)
+  }
+
+  /**
+   * The window entry competing for a place in the main region, if the
+   * window overflows
+   */
+  private candidate(): PolicyNode<K> | undefined {
+    return this.window.weight > this.windowLimit ? this.window.first() : undefined
+  }
+
+  private admit(node: PolicyNode<K>, weight: number) {
+    this.weights.set(node, weight)
+    this.mainWeight += weight
+    this.main.insert(node, weight)
+  }
+}
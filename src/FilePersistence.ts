@@ -0,0 +1,253 @@
+import { closeSync, existsSync, fsyncSync, openSync, readFileSync, renameSync, unlinkSync, writeSync } from 'fs'
+import { EvictionReason, LRUMap, LRUSizedMap } from './LRUMap'
+import { bufferSafeSerializer, identitySerializer, LRUSnapshot, SNAPSHOT_VERSION, ValueSerializer } from './Snapshot'
+
+export interface FilePersistenceOptions<V> {
+  /**
+   * Path of the snapshot file. The write-ahead log is kept beside it,
+   * with a '.wal' extension appended
+   */
+  path: string
+  /**
+   * Number of milliseconds between snapshots. Defaults to 0, meaning
+   * snapshots are only written by save, close and on exit
+   */
+  interval?: number
+  /**
+   * When true (the default), a snapshot is written when the process exits
+   */
+  saveOnExit?: boolean
+  /**
+   * When true, every set, delete and clear is appended to a write-ahead
+   * log between snapshots, so no write is lost if the process crashes
+   */
+  writeAheadLog?: boolean
+  /**
+   * Converts values to and from JSON-safe data. Defaults to the map's
+   * default serializer
+   */
+  serializer?: ValueSerializer<V>
+  /**
+   * Called when a background save or log append fails. Without it,
+   * the error is thrown
+   */
+  onError?: (error: unknown) => void
+}
+
+/**
+ * An operation recorded in the write-ahead log
+ */
+type LogRecord<K> =
+  | { op: 'set', key: K, value: unknown, expiresAt?: number, staleAt?: number, tags?: string[] }
+  | { op: 'delete', key: K }
+  | { op: 'clear' }
+
+/**
+ * Persists an LRUMap or LRUSizedMap to a local file, so a warm cache
+ * survives process restarts. The map is restored from the file when
+ * the persistence is created, and snapshots are written atomically by
+ * writing a temporary file and renaming it over the snapshot
+ *
+ * @export
+ * @class FilePersistence
+ * @template K the type of the map keys
+ * @template V the type of the map values
+ */
+export class FilePersistence<K, V> {
+
+  private readonly logPath: string
+  private readonly type: LRUSnapshot['type']
+  private readonly serializer: ValueSerializer<V>
+  private readonly timer: ReturnType<typeof setInterval>
+  private readonly exitHandler: () => void
+  private closed = false
+
+  private readonly onSet = (key: K, value: V, { expiresAt, staleAt, tags }: { expiresAt: number, staleAt: number, tags?: string[] }) => {
+    const record: LogRecord<K> = { op: 'set', key, value: this.serializer.serialize(value) }
+    if (expiresAt)
+      record.expiresAt = expiresAt
+    if (staleAt)
+      record.staleAt = staleAt
+    if (tags)
+      record.tags = tags
+    this.append(record)
+  }
+
+  private readonly onEvict = (key: K, value: V, reason: EvictionReason) => {
+    // A rejected set leaves the key absent, as a removal does
+    if (reason === 'delete' || reason === 'reject')
+      this.append({ op: 'delete', key })
+  }
+
+  private readonly onClear = () => this.append({ op: 'clear' })
+
+  /**
+   * Creates a file persistence for a map, restoring the map from the
+   * snapshot file and replaying the write-ahead log if they exist
+   *
+   * @param {(LRUMap<K, V> | LRUSizedMap<K, V>)} map the map to persist
+   * @param {FilePersistenceOptions<V>} options
+   * @throws {Error} if the snapshot file cannot be read or is not a valid snapshot
+   * @memberof FilePersistence
+   */
+  constructor(readonly map: LRUMap<K, V> | LRUSizedMap<K, V>, private readonly options: FilePersistenceOptions<V>) {
+    this.logPath = `${options.path}.wal`
+    this.type = map instanceof LRUSizedMap ? 'LRUSizedMap' : 'LRUMap'
+    this.serializer = options.serializer ?? (map instanceof LRUSizedMap ? bufferSafeSerializer : identitySerializer)
+    this.load()
+    if (options.writeAheadLog) {
+      this.map.on('set', this.onSet)
+      this.map.on('evict', this.onEvict)
+      this.map.on('clear', this.onClear)
+    }
+    if (options.interval > 0) {
+      this.timer = setInterval(() => this.saveInBackground(), options.interval)
+      this.timer.unref?.()
+    }
+    if (options.saveOnExit ?? true) {
+      this.exitHandler = () => this.saveInBackground()
+      process.on('exit', this.exitHandler)
+    }
+  }
+
+  /**
+   * Writes a snapshot of the map atomically, then truncates the
+   * write-ahead log
+   *
+   * @memberof FilePersistence
+   */
+  save() {
+    const { path } = this.options
+    const temp = `${path}.${process.pid}.tmp`
+    const data = JSON.stringify(this.map.dump(this.serializer))
+    const fd = openSync(temp, 'w')
+    try {
+      writeSync(fd, data)
+      fsyncSync(fd)
+    } finally {
+      closeSync(fd)
+    }
+    renameSync(temp, path)
+    if (existsSync(this.logPath))
+      unlinkSync(this.logPath)
+  }
+
+  /**
+   * Writes a final snapshot, and stops the interval, the exit handler and
+   * the write-ahead log
+   *
+   * @memberof FilePersistence
+   */
+  close() {
+    if (this.closed)
+      return
+    this.closed = true
+    if (this.timer)
+      clearInterval(this.timer)
+    if (this.exitHandler)
+      process.off('exit', this.exitHandler)
+    this.map.off('set', this.onSet)
+    this.map.off('evict', this.onEvict)
+    this.map.off('clear', this.onClear)
+    this.save()
+  }
+
+  /**
+   * Restores the map from the snapshot file, then replays the write-ahead
+   * log. A torn record at the end of the log, left by a crash during an
+   * append, is ignored, and the log is then compacted into a fresh
+   * snapshot, so that later appends start on a clean line
+   *
+   * @private
+   * @memberof FilePersistence
+   */
+  private load() {
+    if (existsSync(this.options.path))
+      this.map.restore(readFileSync(this.options.path, 'utf8'), this.serializer)
+    if (!existsSync(this.logPath))
+      return
+    const log = readFileSync(this.logPath, 'utf8')
+    const lines = log.split('\n').filter(line => line)
+    let torn = log.length > 0 && !log.endsWith('\n')
+    for (let i = 0; i < lines.length; i++) {
+      let record: LogRecord<K>
+      try {
+        record = JSON.parse(lines[i])
+      } catch (error) {
+        if (i === lines.length - 1) {
+          torn = true
+          break
+        }
+        throw new Error(`Corrupt write-ahead log record at line ${i + 1} of ${this.logPath}`)
+      }
+      this.replay(record)
+    }
+    if (torn)
+      this.save()
+  }
+
+  /**
+   * Applies a write-ahead log record to the map
+   *
+   * @private
+   * @param {LogRecord<K>} record
+   * @memberof FilePersistence
+   */
+  private replay(record: LogRecord<K>) {
+    switch (record.op) {
+      case 'set': {
+        const { key, value, expiresAt, staleAt, tags } = record
+        const snapshot: LRUSnapshot<K> = {
+          version: SNAPSHOT_VERSION,
+          type: this.type,
+          capacity: this.map.capacity,
+          entries: [{ key, value, expiresAt, staleAt, tags }],
+        }
+        this.map.restore(snapshot, this.serializer)
+        break
+      }
+      case 'delete':
+        this.map.delete(record.key)
+        break
+      case 'clear':
+        this.map.clear()
+        break
+    }
+  }
+
+  /**
+   * Appends a record to the write-ahead log
+   *
+   * @private
+   * @param {LogRecord<K>} record
+   * @memberof FilePersistence
+   */
+  private append(record: LogRecord<K>) {
+    try {
+      if ('key' in record && (typeof record.key === 'symbol' || typeof record.key === 'function'))
+        throw new Error(`Cannot log ${typeof record.key} key '${String(record.key)}'`)
+      const fd = openSync(this.logPath, 'a')
+      try {
+        writeSync(fd, `${JSON.stringify(record)}\n`)
+      } finally {
+        closeSync(fd)
+      }
+    } catch (error) {
+      this.fail(error)
+    }
+  }
+
+  private saveInBackground() {
+    try {
+      this.save()
+    } catch (error) {
+      this.fail(error)
+    }
+  }
+
+  private fail(error: unknown) {
+    if (!this.options.onError)
+      throw error
+    this.options.onError(error)
+  }
+}
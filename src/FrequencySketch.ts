@@ -0,0 +1,203 @@
+import { KeyHash } from './KeyIndex'
+
+// Ids of symbol and object keys, which have no content to hash
+const symbolIds: Map<symbol, number> = new Map()
+const objectIds: WeakMap<object, number> = new WeakMap()
+let nextId = 1
+
+/**
+ * Hashes a string to 32 bits with FNV-1a
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Hashes any value to 32 bits. Strings and numbers are hashed by value,
+ * while symbols and objects are hashed by identity
+ *
+ * @export
+ * @param {unknown} value
+ * @return {*}  {number}
+ */
+export function hashOf(value: unknown): number {
+  switch (typeof value) {
+    case 'string':
+      return hashString(value)
+    case 'symbol': {
+      let id = symbolIds.get(value)
+      if (id === undefined)
+        symbolIds.set(value, id = nextId++)
+      return mix(id)
+    }
+    case 'object':
+    case 'function': {
+      if (value === null)
+        break
+      let id = objectIds.get(value)
+      if (id === undefined)
+        objectIds.set(value, id = nextId++)
+      return mix(id)
+    }
+  }
+  return hashString(String(value))
+}
+
+/**
+ * Spreads the bits of a 32 bit integer
+ */
+function mix(hash: number): number {
+  hash = Math.imul(hash ^ (hash >>> 16), 0x45d9f3b)
+  hash = Math.imul(hash ^ (hash >>> 16), 0x45d9f3b)
+  return (hash ^ (hash >>> 16)) >>> 0
+}
+
+const DEPTH = 4
+const SEEDS = [0x97cb3127, 0xc3a5c85c, 0x6cd1f2a5, 0xb492b66f]
+const MAX_COUNT = 15
+
+/**
+ * A Bloom filter remembering which hashes were seen once, so keys seen
+ * only once never take up counters in the sketch
+ */
+class Doorkeeper {
+
+  private readonly bits: Uint32Array
+  private readonly mask: number
+
+  constructor(size: number) {
+    this.bits = new Uint32Array(size >>> 5 || 1)
+    this.mask = size - 1
+  }
+
+  has(hash: number): boolean {
+    for (let i = 0; i < 2; i++) {
+      const bit = mix(hash ^ SEEDS[i]) & this.mask
+      if (!(this.bits[bit >>> 5] & (1 << (bit & 31))))
+        return false
+    }
+    return true
+  }
+
+  /**
+   * Adds a hash, returning whether it was already present
+   */
+  put(hash: number): boolean {
+    let present = true
+    for (let i = 0; i < 2; i++) {
+      const bit = mix(hash ^ SEEDS[i]) & this.mask
+      const word = bit >>> 5
+      const flag = 1 << (bit & 31)
+      if (!(this.bits[word] & flag)) {
+        present = false
+        this.bits[word] |= flag
+      }
+    }
+    return present
+  }
+
+  clear() {
+    this.bits.fill(0)
+  }
+}
+
+function powerOfTwoAtLeast(n: number): number {
+  let size = 16
+  while (size < n && size < 1 << 26)
+    size <<= 1
+  return size
+}
+
+/**
+ * Estimates how often keys were seen recently, with a Count-Min Sketch
+ * of 4-bit counters behind a doorkeeper Bloom filter. Once the number of
+ * recorded keys reaches ten times the expected number of entries, all
+ * counters are halved, so the frequencies age and favor recent activity
+ *
+ * @export
+ * @class FrequencySketch
+ * @template K the type of the keys
+ */
+export class FrequencySketch<K> {
+
+  private readonly table: Uint8Array
+  private readonly width: number
+  private readonly doorkeeper: Doorkeeper
+  private readonly sampleSize: number
+  private additions = 0
+
+  /**
+   * Creates an instance of FrequencySketch.
+   *
+   * @param {number} expectedEntries the number of distinct keys expected to be tracked
+   * @param {KeyHash<K>} [keyHash] derives the value keys are hashed by, when they are matched structurally
+   * @memberof FrequencySketch
+   */
+  constructor(expectedEntries: number, private readonly keyHash?: KeyHash<K>) {
+    this.width = powerOfTwoAtLeast(expectedEntries)
+    this.table = new Uint8Array(this.width * DEPTH)
+    this.doorkeeper = new Doorkeeper(this.width * 4)
+    this.sampleSize = this.width * 10
+  }
+
+  /**
+   * Records an occurrence of a key
+   *
+   * @param {K} key
+   * @memberof FrequencySketch
+   */
+  increment(key: K) {
+    const hash = this.hash(key)
+    if (this.doorkeeper.put(hash)) {
+      for (let i = 0; i < DEPTH; i++) {
+        const slot = this.slot(hash, i)
+        if (this.table[slot] < MAX_COUNT)
+          this.table[slot]++
+      }
+    }
+    if (++this.additions >= this.sampleSize)
+      this.age()
+  }
+
+  /**
+   * Estimates how often a key was seen recently
+   *
+   * @param {K} key
+   * @return {*}  {number}
+   * @memberof FrequencySketch
+   */
+  frequency(key: K): number {
+    const hash = this.hash(key)
+    if (!this.doorkeeper.has(hash))
+      return 0
+    let count = MAX_COUNT
+    for (let i = 0; i < DEPTH; i++)
+      count = Math.min(count, this.table[this.slot(hash, i)])
+    return count + 1
+  }
+
+  /**
+   * Halves all counters and clears the doorkeeper
+   *
+   * @memberof FrequencySketch
+   */
+  age() {
+    for (let i = 0; i < this.table.length; i++)
+      this.table[i] >>>= 1
+    this.doorkeeper.clear()
+    this.additions = Math.floor(this.additions / 2)
+  }
+
+  private hash(key: K): number {
+    return hashOf(this.keyHash ? this.keyHash(key) : key)
+  }
+
+  private slot(hash: number, row: number): number {
+    return row * this.width + (mix(hash ^ SEEDS[row]) & (this.width - 1))
+  }
+}
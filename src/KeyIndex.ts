@@ -0,0 +1,136 @@
+/**
+ * Derives the hash of a key. Keys with different hashes are never equal
+ */
+export type KeyHash<K> = (key: K) => unknown
+
+/**
+ * Tells whether two keys with the same hash are equal
+ */
+export type KeyEquals<K> = (a: K, b: K) => boolean
+
+/**
+ * Indexes items by key. By default, keys are matched by identity like a
+ * Map does. With a keyHash, keys are matched by their hash, and with a
+ * keyEquals as well, keys with the same hash are compared with it
+ *
+ * @export
+ * @class KeyIndex
+ * @template K the type of the keys
+ * @template T the type of the items
+ */
+export class KeyIndex<K, T> {
+
+  // Items by key, or by key hash, when keys are not compared with keyEquals
+  private readonly items: Map<unknown, T> = new Map()
+
+  // Buckets of key-item pairs by key hash, when keys are compared with keyEquals
+  private readonly buckets: Map<unknown, [K, T][]> = new Map()
+  private bucketed = 0
+
+  /**
+   * Creates an instance of KeyIndex.
+   *
+   * @param {KeyHash<K>} [keyHash] derives the hash keys are matched by
+   * @param {KeyEquals<K>} [keyEquals] compares keys with the same hash
+   * @throws {Error} if keyEquals is provided without keyHash
+   * @memberof KeyIndex
+   */
+  constructor(private readonly keyHash?: KeyHash<K>, private readonly keyEquals?: KeyEquals<K>) {
+    if (keyEquals && !keyHash)
+      throw new Error('Invalid keyEquals. A keyHash must be provided with it, so equal keys share a hash')
+  }
+
+  /**
+   * Whether keys are matched structurally rather than by identity
+   *
+   * @readonly
+   * @type {boolean}
+   * @memberof KeyIndex
+   */
+  get structural(): boolean {
+    return this.keyHash !== undefined
+  }
+
+  get size(): number {
+    return this.keyEquals ? this.bucketed : this.items.size
+  }
+
+  get(key: K): T | undefined {
+    if (!this.keyHash)
+      return this.items.get(key)
+    if (!this.keyEquals)
+      return this.items.get(this.keyHash(key))
+    return this.find(this.buckets.get(this.keyHash(key)), key)?.[1]
+  }
+
+  has(key: K): boolean {
+    if (!this.keyHash)
+      return this.items.has(key)
+    if (!this.keyEquals)
+      return this.items.has(this.keyHash(key))
+    return this.find(this.buckets.get(this.keyHash(key)), key) !== undefined
+  }
+
+  set(key: K, item: T): this {
+    if (!this.keyHash) {
+      this.items.set(key, item)
+      return this
+    }
+    const hash = this.keyHash(key)
+    if (!this.keyEquals) {
+      this.items.set(hash, item)
+      return this
+    }
+    const bucket = this.buckets.get(hash)
+    const pair = this.find(bucket, key)
+    if (pair) {
+      pair[1] = item
+    } else {
+      if (bucket)
+        bucket.push([key, item])
+      else
+        this.buckets.set(hash, [[key, item]])
+      this.bucketed++
+    }
+    return this
+  }
+
+  delete(key: K): boolean {
+    if (!this.keyHash)
+      return this.items.delete(key)
+    const hash = this.keyHash(key)
+    if (!this.keyEquals)
+      return this.items.delete(hash)
+    const bucket = this.buckets.get(hash)
+    const pair = this.find(bucket, key)
+    if (!pair)
+      return false
+    if (bucket.length === 1)
+      this.buckets.delete(hash)
+    else
+      bucket.splice(bucket.indexOf(pair), 1)
+    this.bucketed--
+    return true
+  }
+
+  /**
+   * Iterates over the items, in no particular order
+   */
+  *values(): IterableIterator<T> {
+    yield* this.items.values()
+    for (const bucket of this.buckets.values()) {
+      for (const [, item] of bucket)
+        yield item
+    }
+  }
+
+  clear() {
+    this.items.clear()
+    this.buckets.clear()
+    this.bucketed = 0
+  }
+
+  private find(bucket: [K, T][] | undefined, key: K): [K, T] | undefined {
+    return bucket?.find(([k]) => k === key || this.keyEquals(k, key))
+  }
+}
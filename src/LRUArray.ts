@@ -1,4 +1,5 @@
 
+import { StringEncoding, stringByteLength } from './Encoding'
 import { ByteLengthAware } from './LRUMap'
 
 /**
@@ -35,16 +36,35 @@ export class LRUSizedArray<T extends ByteLengthAware>  {
   }
 
   /**
-   * Get the actual byte length of the array's items
+   * Get the actual byte length of the array's items, with strings
+   * counted by their UTF-8 encoding
    *
    * @readonly
    * @type {number}
    * @memberof LRUArray
    */
   get length(): number {
+    return this.byteLength('utf8')
+  }
+
+  /**
+   * Get the byte length of the array's items, with strings counted
+   * in the given encoding
+   *
+   * @param {StringEncoding} encoding
+   * @return {*}  {number}
+   * @memberof LRUArray
+   */
+  byteLength(encoding: StringEncoding): number {
     let result = 0
-    for (const item of this.items)
-      result += item.length
+    for (const item of this.items) {
+      if (typeof item === 'string')
+        result += stringByteLength(item, encoding)
+      else if (item instanceof LRUSizedArray)
+        result += item.byteLength(encoding)
+      else
+        result += item.length
+    }
     return result
   }
 }
@@ -1,6 +1,24 @@
 
+import { assertEncodingIsValid, StringEncoding } from './Encoding'
+import { Emitter } from './Emitter'
+import { createPolicy, EvictionPolicy, PolicyFactory, PolicyName } from './EvictionPolicy'
+import { FrequencySketch } from './FrequencySketch'
+import { KeyEquals, KeyHash, KeyIndex } from './KeyIndex'
 import { LRUSizedArray } from './LRUArray'
-import { Nullable, KeyScalar } from './Types'
+import { byteLengthOf, keyByteLengthOf, SizeCalculator } from './Sizing'
+import {
+  bufferSafeSerializer,
+  identitySerializer,
+  LoadOptions,
+  LRUSnapshot,
+  readSnapshot,
+  SnapshotEntry,
+  SNAPSHOT_VERSION,
+  ValueSerializer,
+} from './Snapshot'
+import { LRUStats, StatsCounter } from './Stats'
+import { Nullable } from './Types'
+import { WeakTier } from './WeakTier'
 
 enum LRUMemoryStrategy {
   /**
@@ -20,36 +38,397 @@ export interface MapEntry<K, V> {
 
 export type ByteLengthAware = string | Buffer | LRUSizedArray<ByteLengthAware>
 
-class Entry<K extends KeyScalar, V> implements MapEntry<K, V> {
-  constructor(readonly key: K, readonly value: V) { }
-  static of<K extends KeyScalar, V>([key, value]: [K, V]) {
-    return new Entry(key, value)
+/**
+ * The outcome of a key lookup. An expired entry is reported with
+ * the 'expired' state, and its value is only provided when the map
+ * was created with the allowStale option. An entry past its staleAfter
+ * deadline is reported as 'stale' when the lookup starts a background
+ * refresh (or there is no refresher), and 'refreshing' when a refresh
+ * is already in flight
+ */
+export type LookupState = 'fresh' | 'stale' | 'refreshing' | 'expired' | 'miss'
+
+export interface Lookup<V> {
+  value: Nullable<V>
+  state: LookupState
+}
+
+/**
+ * Why an entry left the map, or had its value replaced
+ */
+export type EvictionReason = 'evict' | 'demote' | 'delete' | 'set' | 'clear' | 'expire' | 'reject'
+
+export type EvictionCallback<K, V> = (key: K, value: V, reason: EvictionReason) => void
+
+/**
+ * Loads the value of a key missing from the map. The signal is aborted
+ * once every caller waiting on the load has aborted
+ */
+export type Loader<K, V> = (key: K, context: { signal: AbortSignal }) => V | Promise<V>
+
+export interface LRUOptions<K = any, V = any> {
+  /**
+   * Default time-to-live of each entry in milliseconds. A value of 0
+   * (the default) means entries never expire
+   */
+  ttl?: number
+  /**
+   * When true, reading an expired entry returns its stale value once
+   * before it is purged, rather than treating it as absent
+   */
+  allowStale?: boolean
+  /**
+   * Source of the current time in milliseconds. Defaults to Date.now
+   */
+  clock?: () => number
+  /**
+   * Called with each entry that leaves the map, or whose value is replaced,
+   * once the map's internal state is consistent again. Use it to release
+   * resources held by the values
+   */
+  onEvict?: EvictionCallback<K, V>
+  /**
+   * Default loader used by fetch when none is passed to it
+   */
+  loader?: Loader<K, V>
+  /**
+   * Number of milliseconds a rejected load is remembered for, during
+   * which fetch rejects with the same error without loading again.
+   * Defaults to 0, meaning rejections are not cached
+   */
+  cacheRejections?: number
+  /**
+   * Default number of milliseconds after which an entry is stale, and
+   * reading it starts a background refresh while still returning the
+   * cached value. A value of 0 (the default) means entries never go stale
+   */
+  staleAfter?: number
+  /**
+   * Reloads the value of a stale entry in the background
+   */
+  refresher?: Loader<K, V>
+  /**
+   * Called when a background refresh fails. The stale value is kept
+   */
+  onRefreshError?: (key: K, error: unknown) => void
+  /**
+   * When true, the map collects statistics reported by its stats method
+   */
+  stats?: boolean
+  /**
+   * Derives the hash keys are matched by, so that tuple or object keys can
+   * be matched structurally rather than by identity. Without a keyEquals,
+   * keys with the same hash are considered equal
+   */
+  keyHash?: KeyHash<K>
+  /**
+   * Compares keys with the same hash. Requires a keyHash
+   */
+  keyEquals?: KeyEquals<K>
+  /**
+   * When true, object values evicted for capacity are held weakly until
+   * they are garbage collected, and get brings a value that is still
+   * alive back into the map
+   */
+  weakEvicted?: boolean
+  /**
+   * The policy choosing which entry is evicted when the map overflows
+   * its capacity: one of 'lru' (the default), 'lfu', 'slru', '2q' or
+   * 'arc', or a factory of a custom policy
+   */
+  policy?: PolicyName | PolicyFactory<K>
+  /**
+   * When 'tinylfu', a new key that would make the map evict an entry is
+   * only admitted if a frequency sketch has seen it more often than the
+   * entry it would evict. Rejected values are reported with the 'reject'
+   * reason
+   */
+  admission?: 'tinylfu'
+  /**
+   * An estimate of the number of entries the map holds, used to size
+   * frequency sketches. Defaults to the capacity of an LRUMap, or 1024
+   * for unbounded and byte-sized maps
+   */
+  expectedEntries?: number
+}
+
+/**
+ * The events emitted by an LRU map, and the signatures of their listeners
+ */
+export type LRUEvents<K, V> = {
+  /**
+   * A lookup found a live entry
+   */
+  hit: (key: K) => void
+  /**
+   * A lookup found no entry, or an expired one
+   */
+  miss: (key: K) => void
+  /**
+   * An entry was set, with its absolute expiration and staleness times (0 if never),
+   * and its tags, if any
+   */
+  set: (key: K, value: V, expiry: { expiresAt: number, staleAt: number, tags?: string[] }) => void
+  /**
+   * The map was cleared
+   */
+  clear: () => void
+  /**
+   * A value left the map, or was replaced, once the map's state is consistent
+   */
+  evict: (key: K, value: V, reason: EvictionReason) => void,
+}
+
+export interface LRUSizedOptions<K = any, V = any> extends LRUOptions<K, V> {
+  /**
+   * Calculates the size of each value. Defaults to the byte length of
+   * string, Buffer and LRUSizedArray values
+   */
+  sizeOf?: SizeCalculator<K, V>
+  /**
+   * How the default size calculator counts the bytes of strings, and
+   * how string keys are counted when countKeys is set. Defaults to 'utf8'
+   */
+  encoding?: StringEncoding
+  /**
+   * When true, the byte length of each key is added to the size of
+   * its entry
+   */
+  countKeys?: boolean
+  /**
+   * A fixed number of bytes added to the size of each entry to account
+   * for the map's own structure. Defaults to 0
+   */
+  entryOverhead?: number
+  /**
+   * The maximum number of entries, enforced along with the byte
+   * capacity. Defaults to no limit
+   */
+  maxItems?: number
+  /**
+   * The largest size of a single entry in bytes. Defaults to the byte
+   * capacity, since larger entries could never fit
+   */
+  maxEntrySize?: number
+  /**
+   * What set does with an entry larger than maxEntrySize: 'skip' (the
+   * default) drops it and any previous value of its key, reporting it
+   * with the 'reject' reason, while 'throw' throws an error
+   */
+  oversize?: 'skip' | 'throw'
+}
+
+export interface SetOptions {
+  /**
+   * Time-to-live of this entry in milliseconds, overriding the map's
+   * default. A value of 0 means the entry never expires
+   */
+  ttl?: number
+  /**
+   * Milliseconds after which this entry is stale, overriding the map's
+   * default. A value of 0 means the entry never goes stale
+   */
+  staleAfter?: number
+  /**
+   * Tags of this entry, by which it can be invalidated along with every
+   * other entry sharing a tag. Setting a key replaces its tags
+   */
+  tags?: string[]
+}
+
+export interface SetManyOptions extends SetOptions {
+  /**
+   * When true, the entries chosen by the eviction policy are evicted
+   * before the batch is set, until the map can hold its total size
+   */
+  accommodate?: boolean
+}
+
+export interface FetchOptions extends SetOptions {
+  /**
+   * Aborts this caller's wait for the value
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * A load in flight, shared by every caller fetching the same key
+ */
+interface Load<V> {
+  promise: Promise<V>
+  controller: AbortController
+  waiters: number
+  refresh: boolean
+}
+
+/**
+ * A node in the doubly-linked recency list. The node closest
+ * to the head (newer) is referenced by prev, and the node closest
+ * to the tail (older) is referenced by next
+ */
+class Entry<K, V> implements MapEntry<K, V> {
+  prev: Entry<K, V> = null
+  next: Entry<K, V> = null
+  expiresAt = 0
+  staleAt = 0
+  size = 0
+  tags: Nullable<string[]> = null
+  // The durations the entry was set with, renewed by a refresh, or undefined if restored from absolute times
+  ttl: number = undefined
+  staleAfter: number = undefined
+  constructor(readonly key: K, public value: V) { }
+}
+
+/**
+ * The EventTarget methods of AbortSignal, which are missing from
+ * older NodeJS typings
+ */
+interface AbortEventTarget {
+  addEventListener(type: 'abort', listener: () => void, options?: { once?: boolean }): void
+  removeEventListener(type: 'abort', listener: () => void): void
+}
+
+/**
+ * Listens for a signal to abort, returning a function that stops listening
+ */
+export function listenForAbort(signal: AbortSignal, listener: () => void): () => void {
+  const target = signal as unknown as AbortEventTarget
+  target.addEventListener('abort', listener, { once: true })
+  return () => target.removeEventListener('abort', listener)
+}
+
+/**
+ * Describes a key for messages. Scalar keys are quoted, while object
+ * keys are written as JSON where possible
+ */
+export function describeKey(key: unknown): string {
+  if (typeof key === 'object' && key !== null) {
+    try {
+      return JSON.stringify(key) ?? String(key)
+    } catch (error) {
+      return String(key)
+    }
   }
+  return `'${String(key)}'`
+}
+
+/**
+ * Asserts the tags of an entry, if any, are an array of strings
+ */
+function assertTagsAreValid(tags: unknown) {
+  if (tags !== undefined && (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')))
+    throw new Error(`Invalid tags (${String(tags)}). Must be an array of strings`)
+}
+
+/**
+ * Gets the error a fetch rejects with when its signal is aborted
+ */
+export function abortReason(signal: AbortSignal): unknown {
+  const reason = (signal as { reason?: unknown }).reason
+  if (reason !== undefined)
+    return reason
+  const error = new Error('The operation was aborted')
+  error.name = 'AbortError'
+  return error
 }
 
-abstract class LRUAbstractMap<K extends KeyScalar, V> {
+abstract class LRUAbstractMap<K, V> implements Map<K, V> {
+
+  // The snapshot type of the concrete map
+  protected abstract readonly snapshotType: LRUSnapshot['type']
+
+  protected readonly frames: KeyIndex<K, Entry<K, V>>
+  protected newest: Entry<K, V> = null
+  protected oldest: Entry<K, V> = null
+
+  protected readonly ttl: number
+  protected readonly allowStale: boolean
+  protected readonly clock: () => number
+  protected readonly onEvict: EvictionCallback<K, V>
+
+  // Evicted entries waiting to be passed to the onEvict callback
+  private disposals: [K, V, EvictionReason][] = []
+
+  // Whether a batch operation is running, deferring evictions and disposals to its end
+  private batching = false
+
+  // The entry and value the last set of a batch stored, or null if it was rejected
+  private batched: Nullable<[Entry<K, V>, V]> = null
+
+  protected readonly loader: Loader<K, V>
+  protected readonly cacheRejections: number
+  protected readonly staleAfter: number
+  protected readonly refresher: Loader<K, V>
+  protected readonly onRefreshError: (key: K, error: unknown) => void
+
+  // Statistics, collected only when enabled
+  protected readonly counter: Nullable<StatsCounter>
+  private readonly events = new Emitter<LRUEvents<K, V>>()
+
+  // Loads in flight, and recently rejected loads when they are cached
+  private readonly loads: KeyIndex<K, Load<V>>
+  private readonly rejections: KeyIndex<K, { error: unknown, expiresAt: number }>
 
-  protected items: Entry<K, V>[] = []
-  protected frames: Map<K, number> = new Map()
+  // Evicted values held weakly, when weakEvicted is enabled
+  private readonly weak: Nullable<WeakTier<K, V>>
+
+  // The entries of each tag
+  private readonly tagged: Map<string, Set<Entry<K, V>>> = new Map()
+
+  // The eviction policy, or null when evicting the least recently used entry
+  protected readonly policy: Nullable<EvictionPolicy<K>>
+
+  // The frequency sketch deciding which new keys are admitted, when TinyLFU admission is enabled
+  private readonly sketch: Nullable<FrequencySketch<K>>
+
+  // The maximum number of entries, or of bytes for an LRUSizedMap, or -1 if unbounded
+  private limit: number
 
   /**
    * Creates an instance of LRUAbstractMap.
    *
    * @param {number} capacity the maximum number of entries to hold
    * @param {Iterable<[K, V]>} [entries] optional iterable of key-value tuples to initiate the map. LRU ordering is applied immediately to initial entries
-   * @throws {Error} if the capacity for a standard LRUMap is 0 or 1
+   * @param {LRUOptions<K, V>} [options] optional expiration and eviction settings
+   * @throws {Error} if the capacity for a standard LRUMap is 0 or 1, or for an LRUSizedMap is less than 1
+   * @throws {Error} if the default ttl is negative or not a number
+   * @throws {Error} if cacheRejections or the default staleAfter is negative or not a number
+   * @throws {Error} if keyEquals is provided without keyHash
+   * @throws {Error} if weakEvicted is enabled where WeakRef is not supported
+   * @throws {Error} if the eviction policy or admission is unknown
+   * @throws {Error} if expectedEntries is not a positive number
    * @memberof LRUAbstractMap
    */
-  constructor(readonly strategy: LRUMemoryStrategy, readonly capacity: number, entries?: Iterable<[K, V]>) {
-    if (strategy == LRUMemoryStrategy.ITEMS && (capacity === 0 || capacity === 1))
-      throw new Error(`Invalid capacity (${capacity}). LRU capacity must be > 1 or unbounded (-1)`)
+  constructor(readonly strategy: LRUMemoryStrategy, capacity: number, entries?: Iterable<[K, V]>, options: LRUOptions<K, V> = {}) {
+    this.assertCapacityIsValid(capacity)
+    this.limit = capacity
+    this.ttl = options.ttl ?? 0
+    this.allowStale = options.allowStale ?? false
+    this.clock = options.clock ?? Date.now
+    this.onEvict = options.onEvict
+    this.loader = options.loader
+    this.cacheRejections = options.cacheRejections ?? 0
+    this.staleAfter = options.staleAfter ?? 0
+    this.refresher = options.refresher
+    this.onRefreshError = options.onRefreshError
+    this.counter = options.stats ? new StatsCounter() : null
+    this.frames = new KeyIndex(options.keyHash, options.keyEquals)
+    this.loads = new KeyIndex(options.keyHash, options.keyEquals)
+    this.rejections = new KeyIndex(options.keyHash, options.keyEquals)
+    this.weak = options.weakEvicted ? new WeakTier(options.keyHash, options.keyEquals) : null
+    const expectedEntries = options.expectedEntries ?? (strategy === LRUMemoryStrategy.ITEMS && capacity > 0 ? capacity : 1024)
+    if (typeof expectedEntries !== 'number' || !(expectedEntries > 0))
+      throw new Error(`Invalid expectedEntries (${expectedEntries}). Must be a positive number`)
+    if (options.admission !== undefined && options.admission !== 'tinylfu')
+      throw new Error(`Invalid admission '${options.admission}'. Must be 'tinylfu'`)
+    this.policy = createPolicy(options.policy ?? 'lru', { capacity, expectedEntries, keyHash: options.keyHash, keyEquals: options.keyEquals })
+    this.sketch = options.admission ? new FrequencySketch(expectedEntries, options.keyHash) : null
+    this.assertDurationIsValid('ttl', this.ttl)
+    this.assertDurationIsValid('cacheRejections', this.cacheRejections)
+    this.assertDurationIsValid('staleAfter', this.staleAfter)
     if (entries) {
-      const all = [...entries].reverse()
-      const items = capacity > -1 ? all.slice(0, capacity) : all
-      for (let i = 0; i < items.length; i++) {
-        this.items.push(Entry.of(items[i]))
-        this.frames.set(items[i][0], i)
-      }
+      for (const [key, value] of entries)
+        this.set(key, value)
     }
   }
 
@@ -61,7 +440,31 @@ abstract class LRUAbstractMap<K extends KeyScalar, V> {
    * @memberof LRUAbstractMap
    */
   get size(): number {
-    return this.items.length
+    return this.frames.size
+  }
+
+  /**
+   * Gets the maximum number of entries, or of bytes for an LRUSizedMap,
+   * or -1 if unbounded
+   *
+   * @readonly
+   * @type {number}
+   * @memberof LRUAbstractMap
+   */
+  get capacity(): number {
+    return this.limit
+  }
+
+  /**
+   * Gets the number of evicted values held weakly, some of which may
+   * already be garbage collected. Always 0 unless weakEvicted is enabled
+   *
+   * @readonly
+   * @type {number}
+   * @memberof LRUAbstractMap
+   */
+  get weakSize(): number {
+    return this.weak?.size ?? 0
   }
 
   /**
@@ -72,14 +475,7 @@ abstract class LRUAbstractMap<K extends KeyScalar, V> {
    * @memberof LRUAbstractMap
    */
   get(key: K): Nullable<V> {
-    const index = this.frames.get(key)
-    if (index === undefined)
-      return null
-    const entry = this.items[index]
-    this.items.splice(index, 1)
-    this.items.unshift(entry)
-    this.promoteFrame(key)
-    return entry.value
+    return this.lookup(key).value
   }
 
   /**
@@ -90,59 +486,220 @@ abstract class LRUAbstractMap<K extends KeyScalar, V> {
    * @memberof LRUAbstractMap
    */
   peek(key: K): Nullable<V> {
-    const index = this.frames.get(key)
-    if (index === undefined)
-      return null
-    const { value } = this.items[index]
-    return value ?? null
+    return this.resolve(key, false).value
+  }
+
+  /**
+   * Gets an entry value along with the state of the lookup, and
+   * registers recent use O(1). Expired entries are purged, and reported
+   * with the 'expired' state
+   *
+   * @param {K} key the key
+   * @return {*}  {Lookup<V>} the value and its lookup state
+   * @memberof LRUAbstractMap
+   */
+  lookup(key: K): Lookup<V> {
+    return this.resolve(key, true)
   }
 
   /**
    * Sets or replaces an entry in the map with key and
-   * registers recent use O(N)
+   * registers recent use O(1)
+   *
+   * @param {K} key the key
+   * @param {V} value the value
+   * @param {SetOptions} [options] optional per-entry settings
+   * @throws {Error} if the ttl or staleAfter is negative or not a number
+   * @throws {Error} if the tags are not an array of strings
+   * @memberof LRUAbstractMap
+   */
+  set(key: K, value: V, options: SetOptions = {}): this {
+    const ttl = options.ttl ?? this.ttl
+    const staleAfter = options.staleAfter ?? this.staleAfter
+    this.assertDurationIsValid('ttl', ttl)
+    this.assertDurationIsValid('staleAfter', staleAfter)
+    assertTagsAreValid(options.tags)
+    const now = this.clock()
+    return this.store(key, value, ttl > 0 ? now + ttl : 0, staleAfter > 0 ? now + staleAfter : 0, options.tags, { ttl, staleAfter })
+  }
+
+  /**
+   * Inserts or replaces an entry with absolute expiration and staleness
+   * times, registering recent use
    *
+   * @private
    * @param {K} key the key
    * @param {V} value the value
+   * @param {number} expiresAt the time the entry expires at, or 0 if never
+   * @param {number} staleAt the time the entry goes stale at, or 0 if never
+   * @param {string[]} [tags] the tags of the entry
+   * @param {SetOptions} [durations] the ttl and staleAfter the times derive from, if known
+   * @return {*}  {this}
    * @memberof LRUAbstractMap
    */
-  set(key: K, value: V): this {
-    if (this.has(key)) {
-      const index = this.frames.get(key)
-      this.items[index] = new Entry(key, value)
+  private store(key: K, value: V, expiresAt: number, staleAt: number, tags?: string[], durations: SetOptions = {}): this {
+    const size = this.weigh(key, value)
+    this.forgetLoad(key)
+    this.weak?.forget(key)
+    this.sketch?.increment(key)
+    let entry = this.frames.get(key)
+    if (entry && this.isExpired(entry)) {
+      this.discard(entry, 'expire')
+      entry = undefined
+    }
+    if (this.counter) {
+      this.counter.sets++
+      if (entry)
+        this.counter.overwrites++
+    }
+    const oversized = this.oversized(size)
+    if (oversized || (!entry && !this.admits(key, size))) {
+      // An oversized value still supersedes the previous value of its key
+      if (entry)
+        this.discard(entry, 'set')
+      this.queueDisposal(key, value, 'reject')
+      this.flushDisposals()
+      return this
+    }
+    if (entry) {
+      if (entry.value !== value)
+        this.queueDisposal(key, entry.value, 'set')
+      entry.value = value
+      this.promoteFrame(entry)
+      this.track(entry, size)
+      this.policy?.access(entry, size)
     } else {
-      this.items.unshift(new Entry(key, value))
+      entry = new Entry(key, value)
+      this.frames.set(key, entry)
+      this.linkFrame(entry)
+      this.track(entry, size)
+      this.policy?.insert(entry, size)
+    }
+    entry.expiresAt = expiresAt
+    entry.staleAt = staleAt
+    entry.ttl = durations.ttl
+    entry.staleAfter = durations.staleAfter
+    this.retag(entry, tags)
+    if (this.batching)
+      this.batched = [entry, value]
+    else
+      this.evictOverflow()
+    this.counter?.observe(this.size, this.usage)
+    try {
+      this.events.emit('set', key, value, { expiresAt, staleAt, tags: entry.tags ?? undefined })
+    } finally {
+      this.flushDisposals()
     }
-    this.promoteFrame(key)
-    this.evictOverflow()
     return this
   }
 
   /**
-   * Removes an entry from the map and returns the removed entry's value O(N)
+   * Removes an entry from the map and returns the removed entry's value O(1)
    *
    * @param {K} key the key
    * @return {*}  {Nullable<V>} the removed item, which could be null
    * @memberof LRUAbstractMap
    */
   remove(key: K): Nullable<V> {
-    if (!this.has(key))
+    this.forgetLoad(key)
+    this.weak?.forget(key)
+    const entry = this.frames.get(key)
+    if (entry === undefined)
       return null
-    const index = this.frames.get(key)
-    const { value } = this.items[index]
-    this.items.splice(index, 1)
-    this.dropFrame(key)
-    return value ?? null
+    this.discard(entry, 'delete')
+    this.flushDisposals()
+    return entry.value ?? null
   }
 
   /**
-   * Removes an entry from the map O(N)
+   * Removes an entry from the map O(1)
    *
    * @param {K} key
-   * @return {*}  {boolean}
+   * @return {*}  {boolean} true if a live entry was removed, regardless of its value
    * @memberof LRUAbstractMap
    */
   delete(key: K): boolean {
-    return !!this.remove(key)
+    const existed = this.has(key)
+    this.remove(key)
+    return existed
+  }
+
+  /**
+   * Gets the values of keys in order, registering their use, so that the
+   * last key becomes the most recently used O(N)
+   *
+   * @param {Iterable<K>} keys
+   * @return {*}  {Nullable<V>[]} the value of each key, which could be null
+   * @memberof LRUAbstractMap
+   */
+  getMany(keys: Iterable<K>): Nullable<V>[] {
+    return Array.from(keys, key => this.get(key))
+  }
+
+  /**
+   * Peeks at the values of keys without registering recent use O(N)
+   *
+   * @param {Iterable<K>} keys
+   * @return {*}  {Nullable<V>[]} the value of each key, which could be null
+   * @memberof LRUAbstractMap
+   */
+  peekMany(keys: Iterable<K>): Nullable<V>[] {
+    return Array.from(keys, key => this.peek(key))
+  }
+
+  /**
+   * Sets entries in order, so that the last one becomes the most recently
+   * used, then evicts the entries overflowing the capacity in a single
+   * pass. Evictions and onEvict callbacks are deferred to the end of the
+   * batch, so the oldest entries are evicted first, including entries of
+   * the batch itself when it exceeds the capacity O(N)
+   *
+   * @param {Iterable<[K, V]>} entries key-value tuples to set
+   * @param {SetManyOptions} [options] optional settings of every entry, and whether to accommodate the batch first
+   * @return {*}  {boolean[]} whether the map holds the value of each entry once the batch is set
+   * @throws {Error} if the ttl or staleAfter is negative or not a number
+   * @throws {Error} if the tags are not an array of strings
+   * @memberof LRUAbstractMap
+   */
+  setMany(entries: Iterable<[K, V]>, options: SetManyOptions = {}): boolean[] {
+    const { accommodate, ...setOptions } = options
+    const batch = [...entries]
+    if (accommodate)
+      this.reserve(batch)
+    // Outcomes are recorded as the values are stored, since a subclass may store a copy of a value
+    const stored: Nullable<[Entry<K, V>, V]>[] = []
+    this.batching = true
+    try {
+      for (const [key, value] of batch) {
+        this.batched = null
+        this.set(key, value, setOptions)
+        stored.push(this.batched)
+      }
+    } finally {
+      this.batched = null
+      this.batching = false
+      this.evictOverflow()
+      this.flushDisposals()
+    }
+    return stored.map(outcome => outcome !== null && this.frames.get(outcome[0].key) === outcome[0] && outcome[0].value === outcome[1])
+  }
+
+  /**
+   * Removes entries by key, passing them to the onEvict callback once
+   * all are removed O(N)
+   *
+   * @param {Iterable<K>} keys
+   * @return {*}  {Nullable<V>[]} the removed value of each key, which could be null
+   * @memberof LRUAbstractMap
+   */
+  removeMany(keys: Iterable<K>): Nullable<V>[] {
+    this.batching = true
+    try {
+      return Array.from(keys, key => this.remove(key))
+    } finally {
+      this.batching = false
+      this.flushDisposals()
+    }
   }
 
   /**
@@ -152,7 +709,7 @@ abstract class LRUAbstractMap<K extends KeyScalar, V> {
    * @memberof LRUAbstractMap
    */
   get tail(): MapEntry<K, V> {
-    return this.items[this.items.length - 1]
+    return this.oldest ?? undefined
   }
 
   /**
@@ -162,7 +719,7 @@ abstract class LRUAbstractMap<K extends KeyScalar, V> {
    * @memberof LRUAbstractMap
    */
   get head(): MapEntry<K, V> {
-    return this.items[0]
+    return this.newest ?? undefined
   }
 
   /**
@@ -172,165 +729,942 @@ abstract class LRUAbstractMap<K extends KeyScalar, V> {
    * @return {*}  {boolean}
    * @memberof LRUAbstractMap
    */
-  has(key: K): boolean {
-    return this.frames.has(key)
+  has(key: K): boolean {
+    const entry = this.frames.get(key)
+    if (entry === undefined)
+      return false
+    if (this.isExpired(entry)) {
+      this.discard(entry, 'expire')
+      this.flushDisposals()
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Gets an entry value, registering recent use, or loads it when the key
+   * is missing or expired. Concurrent fetches of the same key share a single
+   * load, whose resolved value is stored in the map. A rejected load is not
+   * stored, unless the map caches rejections
+   *
+   * @param {K} key the key
+   * @param {Loader<K, V>} [loader] loads the value, defaulting to the map's loader
+   * @param {FetchOptions} [options] optional abort signal and per-entry settings
+   * @return {*}  {Promise<V>} the cached or loaded value
+   * @throws {Error} if no loader is available
+   * @memberof LRUAbstractMap
+   */
+  fetch(key: K, loader: Loader<K, V> = this.loader, options: FetchOptions = {}): Promise<V> {
+    if (this.has(key))
+      return Promise.resolve(this.get(key))
+    this.recordLookup(key, 'miss')
+    const rejection = this.rejections.get(key)
+    if (rejection) {
+      if (rejection.expiresAt > this.clock())
+        return Promise.reject(rejection.error)
+      this.rejections.delete(key)
+    }
+    const { signal } = options
+    if (signal?.aborted)
+      return Promise.reject(abortReason(signal))
+    let load = this.loads.get(key)
+    if (!load) {
+      if (!loader)
+        return Promise.reject(new Error(`No loader available to fetch key ${describeKey(key)}`))
+      load = this.startLoad(key, loader, options)
+    }
+    load.waiters++
+    if (!signal)
+      return load.promise
+    const current = load
+    return new Promise((resolve, reject) => {
+      const stopListening = listenForAbort(signal, () => {
+        reject(abortReason(signal))
+        if (--current.waiters === 0) {
+          current.controller.abort()
+          if (this.loads.get(key) === current)
+            this.loads.delete(key)
+        }
+      })
+      current.promise.then(
+        value => {
+          stopListening()
+          resolve(value)
+        },
+        error => {
+          stopListening()
+          reject(error)
+        },
+      )
+    })
+  }
+
+  /**
+   * Takes a snapshot of the map's statistics. Counters and peaks are
+   * only collected when the map was created with the stats option
+   *
+   * @return {*}  {LRUStats}
+   * @memberof LRUAbstractMap
+   */
+  stats(): LRUStats {
+    return (this.counter ?? new StatsCounter()).snapshot(this.size, this.usage)
+  }
+
+  /**
+   * Resets all statistics counters, and the peaks to the current values
+   *
+   * @memberof LRUAbstractMap
+   */
+  resetStats() {
+    this.counter?.reset(this.size, this.usage)
+  }
+
+  /**
+   * Registers a listener for a map event
+   *
+   * @template E
+   * @param {E} event the event name: 'hit', 'miss', 'set', 'evict' or 'clear'
+   * @param {LRUEvents<K, V>[E]} listener
+   * @return {*}  {this}
+   * @memberof LRUAbstractMap
+   */
+  on<E extends keyof LRUEvents<K, V>>(event: E, listener: LRUEvents<K, V>[E]): this {
+    this.events.on(event, listener)
+    return this
+  }
+
+  /**
+   * Removes a listener from a map event
+   *
+   * @template E
+   * @param {E} event the event name: 'hit', 'miss', 'set', 'evict' or 'clear'
+   * @param {LRUEvents<K, V>[E]} listener
+   * @return {*}  {this}
+   * @memberof LRUAbstractMap
+   */
+  off<E extends keyof LRUEvents<K, V>>(event: E, listener: LRUEvents<K, V>[E]): this {
+    this.events.off(event, listener)
+    return this
+  }
+
+  /**
+   * Takes a JSON-safe snapshot of the map's capacity and live entries,
+   * in recency order and with their expiration metadata. Does not
+   * register any recent uses
+   *
+   * @param {ValueSerializer<V>} [serializer] converts values to JSON-safe data, defaulting to the map's default serializer
+   * @return {*}  {LRUSnapshot<K>}
+   * @throws {Error} if a key is a symbol, which cannot be serialized
+   * @memberof LRUAbstractMap
+   */
+  dump(serializer: ValueSerializer<V> = this.defaultSerializer()): LRUSnapshot<K> {
+    const entries: SnapshotEntry<K>[] = []
+    for (let entry = this.newest; entry; entry = entry.next) {
+      if (this.isExpired(entry))
+        continue
+      if (typeof entry.key === 'symbol' || typeof entry.key === 'function')
+        throw new Error(`Cannot serialize ${typeof entry.key} key ${describeKey(entry.key)}`)
+      if (typeof entry.key === 'object' && entry.key !== null && !this.frames.structural)
+        throw new Error(`Cannot serialize object key ${describeKey(entry.key)} of a map matching keys by identity. Provide a keyHash to match restored keys structurally`)
+      const item: SnapshotEntry<K> = { key: entry.key, value: serializer.serialize(entry.value) }
+      if (entry.expiresAt)
+        item.expiresAt = entry.expiresAt
+      if (entry.staleAt)
+        item.staleAt = entry.staleAt
+      if (entry.tags)
+        item.tags = entry.tags
+      entries.push(item)
+    }
+    return { version: SNAPSHOT_VERSION, type: this.snapshotType, capacity: this.capacity, entries }
+  }
+
+  /**
+   * Takes a snapshot with the default serializer, so that the map
+   * can be passed to JSON.stringify
+   *
+   * @return {*}  {LRUSnapshot<K>}
+   * @memberof LRUAbstractMap
+   */
+  toJSON(): LRUSnapshot<K> {
+    return this.dump()
+  }
+
+  /**
+   * Sets the entries of a snapshot into the map from oldest to newest,
+   * restoring their expiration metadata and tags. The map keeps its own capacity,
+   * and its existing entries become older than the restored ones
+   *
+   * @param {(string | LRUSnapshot<K>)} snapshot the snapshot, or its JSON string
+   * @param {ValueSerializer<V>} [serializer] restores values, defaulting to the map's default serializer
+   * @return {*}  {this}
+   * @throws {Error} if the snapshot is malformed, of a newer version, or of another type of map
+   * @memberof LRUAbstractMap
+   */
+  restore(snapshot: string | LRUSnapshot<K>, serializer: ValueSerializer<V> = this.defaultSerializer()): this {
+    const { entries } = readSnapshot(snapshot, this.snapshotType)
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const { key, value, expiresAt, staleAt, tags } = entries[i]
+      this.store(key, serializer.deserialize(value), expiresAt ?? 0, staleAt ?? 0, tags)
+    }
+    return this
+  }
+
+  /**
+   * Removes all expired entries from the map O(N)
+   *
+   * @return {*}  {number} the number of entries purged
+   * @memberof LRUAbstractMap
+   */
+  purgeStale(): number {
+    let purged = 0
+    // Purged entries keep their links, so the walk carries on past them
+    for (let entry = this.newest; entry; entry = entry.next) {
+      if (this.isExpired(entry)) {
+        this.discard(entry, 'expire')
+        purged++
+      }
+    }
+    this.flushDisposals()
+    return purged
+  }
+
+  /**
+   * Removes every entry set with a tag, found through the tag index
+   * without scanning the map O(T) where T is the number of entries with
+   * the tag
+   *
+   * @param {string} tag
+   * @return {*}  {number} the number of entries removed
+   * @memberof LRUAbstractMap
+   */
+  invalidateTag(tag: string): number {
+    this.weak?.forgetWhere((key, value, tags) => tags?.includes(tag))
+    const entries = this.tagged.get(tag)
+    return entries ? this.removeEntries([...entries]) : 0
+  }
+
+  /**
+   * Removes every entry whose key is a string starting with a prefix O(N)
+   *
+   * @param {string} prefix
+   * @return {*}  {number} the number of entries removed
+   * @memberof LRUAbstractMap
+   */
+  deleteByPrefix(prefix: string): number {
+    return this.deleteWhere((value, key) => typeof key === 'string' && key.startsWith(prefix))
+  }
+
+  /**
+   * Removes every entry matching a predicate, which is called for all
+   * entries before any is removed O(N)
+   *
+   * @param {(value: V, key: K) => boolean} predicate
+   * @return {*}  {number} the number of entries removed
+   * @memberof LRUAbstractMap
+   */
+  deleteWhere(predicate: (value: V, key: K) => boolean): number {
+    const entries: Entry<K, V>[] = []
+    for (let entry = this.newest; entry; entry = entry.next) {
+      if (predicate(entry.value, entry.key))
+        entries.push(entry)
+    }
+    this.weak?.forgetWhere((key, value) => predicate(value, key))
+    return this.removeEntries(entries)
+  }
+
+  /**
+   * Evicts the entry chosen by the eviction policy, the least recently
+   * used by default, as if the map overflowed its capacity O(1)
+   *
+   * @return {*}  {boolean} whether an entry was evicted
+   * @memberof LRUAbstractMap
+   */
+  evict(): boolean {
+    if (!this.size)
+      return false
+    this.discard(this.victim(), 'evict')
+    this.flushDisposals()
+    return true
+  }
+
+  /**
+   * Clears all entries from the map
+   *
+   * @memberof LRUAbstractMap
+   */
+  clear() {
+    this.loads.clear()
+    this.rejections.clear()
+    this.weak?.clear()
+    this.policy?.clear()
+    this.tagged.clear()
+    for (let entry = this.newest; entry; entry = entry.next)
+      this.queueDisposal(entry.key, entry.value, 'clear')
+    this.frames.clear()
+    this.newest = null
+    this.oldest = null
+    try {
+      this.events.emit('clear')
+    } finally {
+      this.flushDisposals()
+    }
+  }
+
+  /**
+   * Iterates over each entry and applies a callback function to each
+   * entry without registering recent uses. As with Map, the callback
+   * is called with thisArg as its this value
+   *
+   * @param {(value: V, key: K, map: Map<K, V>) => void} callbackfn
+   * @param {*} [thisArg]
+   * @memberof LRUAbstractMap
+   */
+  forEach(callbackfn: (value: V, key: K, map: Map<K, V>) => void, thisArg?: any) {
+    for (const [k, v] of this.entries())
+      callbackfn.call(thisArg, v, k, this)
+  }
+
+  /**
+   * Iterates over all entries in the map without
+   * registering recent uses
+   *
+   * @return {*}  {IterableIterator<[K, V]>}
+   * @memberof LRUAbstractMap
+   */
+  *[Symbol.iterator](): IterableIterator<[K, V]> {
+    for (const e of this.entries())
+      yield e
+  }
+
+  /**
+   * The string tag of the map, used by Object.prototype.toString
+   *
+   * @readonly
+   * @abstract
+   * @type {string}
+   * @memberof LRUAbstractMap
+   */
+  abstract get [Symbol.toStringTag](): string
+
+  /**
+   * Get an iterator of all map entries in tuple form without registering
+   * recent uses
+   *
+   * @return {*}  {IterableIterator<[K, V]>}
+   * @memberof LRUAbstractMap
+   */
+  *entries(): IterableIterator<[K, V]> {
+    for (const i of this.entryIterator()) {
+      yield [i.key, i.value]
+    }
+  }
+
+  /**
+   * Gets an iterator of all map entries, from newest to oldest,
+   * without registering recent uses. The order is the one the map had
+   * when iteration started: expired entries are skipped, as are entries
+   * removed during iteration, while entries set during iteration are not
+   * visited, and entries used during iteration are visited once
+   *
+   * @return {*}  {IterableIterator<MapEntry<K, V>>}
+   * @memberof LRUAbstractMap
+   */
+  *entryIterator(): IterableIterator<MapEntry<K, V>> {
+    // Iterate over a snapshot of the list, as promoting an entry mid-iteration relinks it at the head
+    const entries: Entry<K, V>[] = []
+    for (let entry = this.newest; entry; entry = entry.next)
+      entries.push(entry)
+    for (const entry of entries) {
+      // Skip over entries removed while the consumer held control
+      if (this.frames.get(entry.key) === entry && !this.isExpired(entry))
+        yield entry
+    }
+  }
+
+  /**
+   * Get an iterator of all entry keys without registering any
+   * recent uses
+   *
+   * @return {*}  {IterableIterator<K>}
+   * @memberof LRUAbstractMap
+   */
+  *keys(): IterableIterator<K> {
+    for (const { key } of this.entryIterator())
+      yield key
+  }
+
+  /**
+   * Get an iterator of all entry values without registering any
+   * recent uses
+   *
+   * @return {*}  {IterableIterator<V>}
+   * @memberof LRUAbstractMap
+   */
+  *values(): IterableIterator<V> {
+    for (const { value } of this.entryIterator())
+      yield value
+  }
+
+  /**
+   * Converts the map to an array of entry values, returned in the
+   * order of most recently used items first. Does not register any
+   * recent uses
+   *
+   * @return {*}  {V[]}
+   * @memberof LRUAbstractMap
+   */
+  toArray(): V[] {
+    return Array.from(this.values())
+  }
+
+  /**
+   * Gets a read-only view of the map. Reads through the view never
+   * register recent use, so it can be handed to code that should not
+   * affect the LRU ordering
+   *
+   * @return {*}  {ReadonlyMap<K, V>}
+   * @memberof LRUAbstractMap
+   */
+  asReadonly(): ReadonlyMap<K, V> {
+    return new ReadonlyView(this)
+  }
+
+  /**
+   * Starts loading the value of a key, storing it in the map once
+   * resolved unless the load was aborted or superseded in the meantime
+   *
+   * @private
+   * @param {K} key
+   * @param {Loader<K, V>} loader
+   * @param {SetOptions} options
+   * @param {boolean} [refresh=false] whether this reloads a stale entry, whose rejection is never cached
+   * @return {*}  {Load<V>}
+   * @memberof LRUAbstractMap
+   */
+  private startLoad(key: K, loader: Loader<K, V>, options: SetOptions, refresh = false): Load<V> {
+    const controller = new AbortController()
+    const load: Load<V> = { promise: null, controller, waiters: 0, refresh }
+    const isCurrent = () => this.loads.get(key) === load && !controller.signal.aborted
+    load.promise = Promise.resolve()
+      .then(() => loader(key, { signal: controller.signal }))
+      .then(
+        value => {
+          if (isCurrent()) {
+            this.loads.delete(key)
+            this.set(key, value, { ttl: options.ttl, staleAfter: options.staleAfter, tags: options.tags })
+          }
+          return value
+        },
+        error => {
+          if (isCurrent()) {
+            this.loads.delete(key)
+            if (this.cacheRejections > 0 && !refresh)
+              this.rejections.set(key, { error, expiresAt: this.clock() + this.cacheRejections })
+          }
+          throw error
+        },
+      )
+    // Callers that aborted no longer observe the promise
+    load.promise.catch(() => undefined)
+    this.loads.set(key, load)
+    return load
+  }
+
+  /**
+   * Detaches any load in flight for a key, so its result will not
+   * overwrite a newer value, and forgets a cached rejection
+   *
+   * @private
+   * @param {K} key
+   * @memberof LRUAbstractMap
+   */
+  private forgetLoad(key: K) {
+    if (this.loads.size)
+      this.loads.delete(key)
+    if (this.rejections.size)
+      this.rejections.delete(key)
+  }
+
+  /**
+   * Gets the serializer used by dump and load when none is provided
+   *
+   * @protected
+   * @return {*}  {ValueSerializer<V>}
+   * @memberof LRUAbstractMap
+   */
+  protected defaultSerializer(): ValueSerializer<V> {
+    return identitySerializer
+  }
+
+  /**
+   * Finds an entry, purging it if expired, and optionally
+   * promotes it to the head of the recency list
+   *
+   * @protected
+   * @param {K} key the key
+   * @param {boolean} promote whether to register recent use
+   * @return {*}  {Lookup<V>}
+   * @memberof LRUAbstractMap
+   */
+  protected resolve(key: K, promote: boolean): Lookup<V> {
+    if (promote)
+      this.sketch?.increment(key)
+    const lookup = this.find(key, promote)
+    if (promote)
+      this.recordLookup(key, lookup.state)
+    return lookup
+  }
+
+  /**
+   * Finds an entry for resolve, purging it if expired
+   *
+   * @private
+   * @param {K} key the key
+   * @param {boolean} promote whether to register recent use
+   * @return {*}  {Lookup<V>}
+   * @memberof LRUAbstractMap
+   */
+  private find(key: K, promote: boolean): Lookup<V> {
+    let entry = this.frames.get(key)
+    if (entry === undefined && promote && this.weak)
+      entry = this.resurrect(key)
+    if (entry === undefined)
+      return { value: null, state: 'miss' }
+    if (this.isExpired(entry)) {
+      this.discard(entry, 'expire')
+      this.flushDisposals()
+      return { value: this.allowStale ? entry.value ?? null : null, state: 'expired' }
+    }
+    if (promote) {
+      this.promoteFrame(entry)
+      this.policy?.access(entry, entry.size)
+    }
+    if (entry.staleAt > 0 && entry.staleAt <= this.clock())
+      return { value: entry.value ?? null, state: promote ? this.revalidate(entry) : 'stale' }
+    return { value: entry.value ?? null, state: 'fresh' }
+  }
+
+  /**
+   * Brings a weakly held value that is still alive back into the map,
+   * unless its entry has expired in the meantime
+   *
+   * @private
+   * @param {K} key
+   * @return {*}  {(Entry<K, V> | undefined)} the entry of the value, if it was brought back
+   * @memberof LRUAbstractMap
+   */
+  private resurrect(key: K): Entry<K, V> | undefined {
+    const held = this.weak.take(key)
+    if (held === undefined || (held.expiresAt > 0 && held.expiresAt <= this.clock()))
+      return undefined
+    this.store(key, held.value, held.expiresAt, held.staleAt, held.tags)
+    return this.frames.get(key)
+  }
+
+  /**
+   * Counts a lookup as a hit or a miss, and emits the matching event
+   *
+   * @private
+   * @param {K} key
+   * @param {LookupState} state
+   * @memberof LRUAbstractMap
+   */
+  private recordLookup(key: K, state: LookupState) {
+    const hit = state !== 'miss' && state !== 'expired'
+    if (this.counter) {
+      if (hit)
+        this.counter.hits++
+      else
+        this.counter.misses++
+    }
+    this.events.emit(hit ? 'hit' : 'miss', key)
+  }
+
+  /**
+   * Starts a background refresh of a stale entry, unless one is already
+   * in flight. The refreshed value is set with the ttl and staleAfter of
+   * the entry. A failed refresh keeps the stale value and is reported
+   * to the onRefreshError callback
+   *
+   * @private
+   * @param {Entry<K, V>} entry
+   * @return {*}  {LookupState} 'refreshing' if a refresh was already in flight, otherwise 'stale'
+   * @memberof LRUAbstractMap
+   */
+  private revalidate(entry: Entry<K, V>): LookupState {
+    const { key } = entry
+    if (this.loads.has(key))
+      return 'refreshing'
+    if (!this.refresher)
+      return 'stale'
+    const load = this.startLoad(key, this.refresher, { ttl: entry.ttl, staleAfter: entry.staleAfter, tags: entry.tags ?? undefined }, true)
+    load.promise
+      .catch(error => this.onRefreshError?.(key, error))
+      // A throwing onRefreshError must not surface as an unhandled rejection
+      .catch(() => undefined)
+    return 'stale'
+  }
+
+  /**
+   * Checks whether an entry has outlived its time-to-live
+   *
+   * @protected
+   * @param {Entry<K, V>} entry
+   * @return {*}  {boolean}
+   * @memberof LRUAbstractMap
+   */
+  protected isExpired(entry: Entry<K, V>): boolean {
+    return entry.expiresAt > 0 && entry.expiresAt <= this.clock()
+  }
+
+  /**
+   * Gets the bytes used by the map for statistics, or undefined
+   * when the map is not limited by bytes
+   *
+   * @readonly
+   * @protected
+   * @type {number}
+   * @memberof LRUAbstractMap
+   */
+  protected get usage(): number {
+    return undefined
+  }
+
+  /**
+   * Calculates the size an entry counts towards capacity. This is
+   * called before the map is modified, so it may safely throw
+   *
+   * @protected
+   * @param {K} key
+   * @param {V} value
+   * @return {*}  {number}
+   * @memberof LRUAbstractMap
+   */
+  protected weigh(key: K, value: V): number {
+    return 1
+  }
+
+  /**
+   * Records the size of an inserted or updated entry
+   *
+   * @protected
+   * @param {Entry<K, V>} entry
+   * @param {number} size
+   * @memberof LRUAbstractMap
+   */
+  protected track(entry: Entry<K, V>, size: number) {
+    entry.size = size
+  }
+
+  /**
+   * Asserts a capacity is valid for the map's memory strategy
+   *
+   * @protected
+   * @param {number} capacity
+   * @throws {Error} if the capacity is not an integer, or for a standard LRUMap is not > 1 nor -1, or for an LRUSizedMap is less than 1
+   * @memberof LRUAbstractMap
+   */
+  protected assertCapacityIsValid(capacity: number) {
+    if (this.strategy == LRUMemoryStrategy.ITEMS && (!Number.isInteger(capacity) || (capacity !== -1 && capacity <= 1)))
+      throw new Error(`Invalid capacity (${capacity}). LRU capacity must be an integer > 1 or unbounded (-1)`)
+    if (this.strategy == LRUMemoryStrategy.BYTES && (!Number.isInteger(capacity) || capacity < 1))
+      throw new Error(`Invalid maxBytes capacity (${capacity}). LRU byte capacity must be an integer >= 1`)
+  }
+
+  /**
+   * Changes the capacity of the map, and evicts the entries chosen by
+   * the eviction policy until the map fits it
+   *
+   * @protected
+   * @param {number} capacity a valid capacity
+   * @memberof LRUAbstractMap
+   */
+  protected changeCapacity(capacity: number) {
+    this.limit = capacity
+    this.policy?.resize?.(capacity)
+    this.evictOverflow()
+    this.flushDisposals()
+  }
+
+  /**
+   * Asserts a duration is a non-negative number of milliseconds
+   *
+   * @protected
+   * @param {string} name the name of the setting, for the error message
+   * @param {number} ms
+   * @memberof LRUAbstractMap
+   */
+  protected assertDurationIsValid(name: string, ms: number) {
+    if (typeof ms !== 'number' || Number.isNaN(ms) || ms < 0)
+      throw new Error(`Invalid ${name} (${ms}). Must be a non-negative number of milliseconds`)
+  }
+
+  /**
+   * Links a detached entry in as the newest node of the recency list O(1)
+   *
+   * @protected
+   * @param {Entry<K, V>} entry
+   * @memberof LRUAbstractMap
+   */
+  protected linkFrame(entry: Entry<K, V>) {
+    entry.prev = null
+    entry.next = this.newest
+    if (this.newest)
+      this.newest.prev = entry
+    this.newest = entry
+    if (!this.oldest)
+      this.oldest = entry
+  }
+
+  /**
+   * Detaches an entry from the recency list without removing
+   * it from the frame index O(1)
+   *
+   * @protected
+   * @param {Entry<K, V>} entry
+   * @memberof LRUAbstractMap
+   */
+  protected unlinkFrame(entry: Entry<K, V>) {
+    if (entry.prev)
+      entry.prev.next = entry.next
+    else
+      this.newest = entry.next
+    if (entry.next)
+      entry.next.prev = entry.prev
+    else
+      this.oldest = entry.prev
+    // The detached entry keeps its links, so an iterator positioned on it
+    // can still walk on to the entries that were after it
+  }
+
+  /**
+   * Removes an entry from both the frame index and the recency list O(1)
+   *
+   * @protected
+   * @param {Entry<K, V>} entry
+   * @memberof LRUAbstractMap
+   */
+  protected dropFrame(entry: Entry<K, V>) {
+    this.unlinkFrame(entry)
+    this.frames.delete(entry.key)
+    this.policy?.remove(entry)
+    this.untag(entry)
+  }
+
+  /**
+   * Replaces the tags of an entry in the tag index
+   *
+   * @private
+   * @param {Entry<K, V>} entry
+   * @param {string[]} [tags]
+   * @memberof LRUAbstractMap
+   */
+  private retag(entry: Entry<K, V>, tags?: string[]) {
+    this.untag(entry)
+    entry.tags = tags?.length ? [...new Set(tags)] : null
+    for (const tag of entry.tags ?? []) {
+      const entries = this.tagged.get(tag) ?? new Set()
+      entries.add(entry)
+      this.tagged.set(tag, entries)
+    }
+  }
+
+  /**
+   * Removes an entry from the tag index. The entry keeps its tags, so
+   * they can be held along with its value by the weak tier
+   *
+   * @private
+   * @param {Entry<K, V>} entry
+   * @memberof LRUAbstractMap
+   */
+  private untag(entry: Entry<K, V>) {
+    for (const tag of entry.tags ?? []) {
+      const entries = this.tagged.get(tag)
+      entries?.delete(entry)
+      if (entries?.size === 0)
+        this.tagged.delete(tag)
+    }
   }
 
   /**
-   * Clears all entries from the map
+   * Removes entries as deleted, cancelling any refresh of their keys
    *
+   * @private
+   * @param {Entry<K, V>[]} entries
+   * @return {*}  {number} the number of entries removed
    * @memberof LRUAbstractMap
    */
-  clear() {
-    this.items = []
-    this.frames.clear()
+  private removeEntries(entries: Entry<K, V>[]): number {
+    for (const entry of entries) {
+      this.forgetLoad(entry.key)
+      this.discard(entry, 'delete')
+    }
+    this.flushDisposals()
+    return entries.length
   }
 
   /**
-   * Iterates over each entry and applies a callback function to each
-   * entry without registering recent uses
+   * Promotes an entry to the head of the recency list O(1)
    *
-   * @param {(value: V, key: K, map: Map<K, V>) => void} callbackfn
-   * @param {*} [thisArg]
+   * @protected
+   * @param {Entry<K, V>} entry
    * @memberof LRUAbstractMap
    */
-  forEach(callbackfn: (value: V, key: K, map: Map<K, V>) => void, thisArg?: any) {
-    if (typeof thisArg !== 'object') {
-      thisArg = this
-    }
-    for (const [k, v] of this.entries())
-      callbackfn.call(thisArg, v, k, this)
+  protected promoteFrame(entry: Entry<K, V>) {
+    if (this.newest === entry)
+      return
+    this.unlinkFrame(entry)
+    this.linkFrame(entry)
   }
 
   /**
-   * Iterates over all entries in the map without
-   * registering recent uses
+   * Evicts the entries chosen by the eviction policy until the map fits its capacity
    *
+   * @protected
    * @memberof LRUAbstractMap
    */
-  *[Symbol.iterator]() {
-    for (const e of this.entries())
-      yield e
+  protected evictOverflow() {
+    if (this.capacity < 0)
+      return
+    while (this.frames.size > this.capacity)
+      this.discard(this.victim(), 'evict')
   }
 
   /**
-   * Get an iterator of all map entries in tuple form without registering
-   * recent uses
+   * Evicts the entries chosen by the eviction policy until the map can
+   * hold a batch of entries about to be set. Disposals are left for the
+   * caller to flush
    *
-   * @return {*}  {IterableIterator<[K, V]>}
+   * @protected
+   * @param {[K, V][]} batch
    * @memberof LRUAbstractMap
    */
-  *entries(): IterableIterator<[K, V]> {
-    for (const i of this.entryIterator()) {
-      yield [i.key, i.value]
-    }
+  protected reserve(batch: [K, V][]) {
+    if (this.capacity < 0)
+      return
+    const adding = new Set(batch.map(([key]) => key).filter(key => !this.frames.has(key))).size
+    while (this.size && this.frames.size + adding > this.capacity)
+      this.discard(this.victim(), 'evict')
   }
 
   /**
-   * Gets an iterator of all map entries without registering recent uses
+   * Tells whether a new key is admitted into the map. With TinyLFU
+   * admission, a key that would make the map evict an entry is only
+   * admitted if it was seen more often than the entry it would evict
    *
-   * @return {*}  {IterableIterator<MapEntry<K, V>>}
+   * @protected
+   * @param {K} key the new key
+   * @param {number} size the size of the new entry
+   * @return {*}  {boolean}
    * @memberof LRUAbstractMap
    */
-  *entryIterator(): IterableIterator<MapEntry<K, V>> {
-    const indicies = Object.values(this.frames).sort((a, b) => a - b)
-    for (const i of indicies) {
-      yield this.items[i]
-    }
+  protected admits(key: K, size: number): boolean {
+    if (!this.sketch || !this.overflows(size))
+      return true
+    const victim = this.policy ? this.policy.peek() : this.oldest
+    return !victim || this.sketch.frequency(key) > this.sketch.frequency(victim.key)
   }
 
   /**
-   * Get an iterator of all entry keys without registering any
-   * recent uses
+   * Tells whether an entry of a size is too large to be stored at all
    *
-   * @return {*}  {IterableIterator<K>}
+   * @protected
+   * @param {number} size
+   * @return {*}  {boolean}
    * @memberof LRUAbstractMap
    */
-  *keys(): IterableIterator<K> {
-    const indicies = [...this.frames.values()].sort((a, b) => a - b)
-    for (const i of indicies) {
-      yield this.items[i].key
-    }
+  protected oversized(size: number): boolean {
+    return false
   }
 
   /**
-   * Get an iterator of all entry values without registering any
-   * recent uses
+   * Tells whether adding an entry of a size would overflow the capacity
    *
-   * @return {*}  {IterableIterator<V>}
+   * @protected
+   * @param {number} size
+   * @return {*}  {boolean}
    * @memberof LRUAbstractMap
    */
-  *values(): IterableIterator<V> {
-    const indicies = Object.values(this.frames).sort((a, b) => a - b)
-    for (const i of indicies) {
-      yield this.items[i].value
-    }
+  protected overflows(size: number): boolean {
+    return this.capacity >= 0 && this.frames.size >= this.capacity
   }
 
   /**
-   * Converts the map to an array of entry values, returned in the
-   * order of least recently used items first. Does not register any
-   * recent uses
+   * Chooses the entry to evict next: the one chosen by the eviction
+   * policy, or else the least recently used one
    *
-   * @return {*}  {V[]}
+   * @protected
+   * @return {*}  {Entry<K, V>}
    * @memberof LRUAbstractMap
    */
-  toArray(): V[] {
-    return Array.from(this.values())
+  protected victim(): Entry<K, V> {
+    return (this.policy?.evict() as Entry<K, V>) ?? this.oldest
   }
 
   /**
-   * Removes an item from the frame index and
-   * reorders the indexing
+   * Removes an entry and queues it for the onEvict callback. Callers
+   * must flush the queued disposals once the map's state is consistent.
+   * Entries evicted for capacity are demoted to the weak tier, if enabled,
+   * and queued with the 'demote' reason, as their value may be brought back
    *
    * @protected
-   * @param {K} key
+   * @param {Entry<K, V>} entry
+   * @param {EvictionReason} reason
    * @memberof LRUAbstractMap
    */
-  protected dropFrame(key: K) {
-    const keys = [...this.frames.keys()]
-    const index = keys.indexOf(key)
-    keys.splice(index, 1)
-    this.frames.clear()
-    const length = this.capacity > -1
-      ? Math.min(keys.length, this.capacity)
-      : keys.length
-    for (let i = 0; i < length; i++)
-      this.frames.set(keys[i], i)
+  protected discard(entry: Entry<K, V>, reason: EvictionReason) {
+    this.dropFrame(entry)
+    const demoted = reason === 'evict' && this.weak?.hold(entry.key, entry.value, entry.expiresAt, entry.staleAt, entry.tags)
+    this.queueDisposal(entry.key, entry.value, demoted ? 'demote' : reason)
   }
 
   /**
-   * Promotes a key to first frame index and
-   * reorders the indexing
+   * Queues an evicted or replaced value for the onEvict callback
    *
    * @protected
    * @param {K} key
+   * @param {V} value
+   * @param {EvictionReason} reason
    * @memberof LRUAbstractMap
    */
-  protected promoteFrame(key: K) {
-    const keys = [...this.frames.keys()]
-    const index = keys.indexOf(key)
-    if (index > -1)
-      keys.splice(index, 1)
-    keys.unshift(key)
-    this.frames.clear()
-    const length = this.capacity > -1 && this.strategy == LRUMemoryStrategy.ITEMS
-      ? Math.min(keys.length, this.capacity)
-      : keys.length
-    for (let i = 0; i < length; i++) {
-      this.frames.set(keys[i], i)
-    }
+  protected queueDisposal(key: K, value: V, reason: EvictionReason) {
+    if (this.counter)
+      this.counter.evictions[reason]++
+    if (this.onEvict || this.events.has('evict'))
+      this.disposals.push([key, value, reason])
   }
 
   /**
-   * Evict all oldest references that do not fit into the capacity
+   * Passes all queued disposals to the onEvict callback and the evict
+   * listeners, unless a batch operation is running. Every callback is invoked even if an earlier one throws,
+   * after which the first error is rethrown. The map's state is never
+   * modified here, so a throwing callback cannot corrupt it
    *
    * @protected
    * @memberof LRUAbstractMap
    */
-  protected evictOverflow() {
-    if (this.capacity > -1)
-      this.items.splice(this.frames.size)
+  protected flushDisposals() {
+    if (!this.disposals.length || this.batching)
+      return
+    const disposals = this.disposals
+    this.disposals = []
+    let failure: { error: unknown }
+    for (const [key, value, reason] of disposals) {
+      // The evict listeners keep the map's companions in sync, so they
+      // run even when the onEvict callback throws
+      try {
+        this.onEvict?.(key, value, reason)
+      } catch (error) {
+        failure = failure ?? { error }
+      }
+      try {
+        this.events.emit('evict', key, value, reason)
+      } catch (error) {
+        failure = failure ?? { error }
+      }
+    }
+    if (failure)
+      throw failure.error
   }
 
   /**
@@ -343,11 +1677,56 @@ abstract class LRUAbstractMap<K extends KeyScalar, V> {
     let s = `${this.constructor.name} {`
     let i = this.size - 1
     for (const { key, value: value } of this.entryIterator())
-      s += `\n  Entry { ord: ${i--}, key: '${key}', value: '${value}' }`
+      s += `\n  Entry { ord: ${i--}, key: ${describeKey(key)}, value: '${value}' }`
     return `${s}\n}`
   }
 }
 
+/**
+ * A read-only view of an LRU map, whose reads never register recent use
+ */
+class ReadonlyView<K, V> implements ReadonlyMap<K, V> {
+
+  constructor(private readonly map: LRUAbstractMap<K, V>) { }
+
+  get size(): number {
+    return this.map.size
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'LRUReadonlyView'
+  }
+
+  get(key: K): Nullable<V> {
+    return this.map.peek(key)
+  }
+
+  has(key: K): boolean {
+    return this.map.has(key)
+  }
+
+  forEach(callbackfn: (value: V, key: K, map: ReadonlyMap<K, V>) => void, thisArg?: any) {
+    for (const [k, v] of this.map.entries())
+      callbackfn.call(thisArg, v, k, this)
+  }
+
+  entries(): IterableIterator<[K, V]> {
+    return this.map.entries()
+  }
+
+  keys(): IterableIterator<K> {
+    return this.map.keys()
+  }
+
+  values(): IterableIterator<V> {
+    return this.map.values()
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.map.entries()
+  }
+}
+
 /**
  * Implementation of the ES6 Map interface that maintains a LRU
  * (least recently used) ordering to its entries that are mutated
@@ -358,20 +1737,35 @@ abstract class LRUAbstractMap<K extends KeyScalar, V> {
  *
  * @export
  * @class LRUMap
- * @template K the type of the map keys, constrained to string, number or symbol
+ * @template K the type of the map keys
  * @template V the type of the map values
  */
-export class LRUMap<K extends KeyScalar, V> extends LRUAbstractMap<K, V> {
+export class LRUMap<K, V> extends LRUAbstractMap<K, V> {
+
+  protected readonly snapshotType = 'LRUMap'
+
+  /**
+   * The string tag of the map, used by Object.prototype.toString
+   *
+   * @readonly
+   * @type {string}
+   * @memberof LRUMap
+   */
+  get [Symbol.toStringTag](): string {
+    return 'LRUMap'
+  }
+
   /**
    * Creates an instance of an LRUMap that manages its size by the number
    * of entries
    *
    * @param {number} itemCapacity the maximum number of entries to hold
    * @param {Iterable<[K, V]>} [entries] optional iterable of key-value tuples to initiate the map. LRU ordering is applied immediately to initial entries
+   * @param {LRUOptions<K, V>} [options] optional expiration and eviction settings
    * @memberof LRUMap
    */
-  constructor(itemCapacity: number, entries?: Iterable<[K, V]>) {
-    super(LRUMemoryStrategy.ITEMS, itemCapacity, entries)
+  constructor(itemCapacity: number, entries?: Iterable<[K, V]>, options?: LRUOptions<K, V>) {
+    super(LRUMemoryStrategy.ITEMS, itemCapacity, entries, options)
   }
 
   /**
@@ -381,14 +1775,66 @@ export class LRUMap<K extends KeyScalar, V> extends LRUAbstractMap<K, V> {
    * so be aware of possible memory and performance implications
    *
    * @static
-   * @template K the type of the map keys, constrained to string, number or symbol
+   * @template K the type of the map keys
    * @template V the type of the map values
    * @param {Iterable<[K, V]>} [entries] optional iterable of key-value tuples to initiate the map. LRU ordering is applied immediately to initial entries
+   * @param {LRUOptions<K, V>} [options] optional expiration and eviction settings
    * @return {*}  {LRUAbstractMap<K,V>}
    * @memberof LRUMap
    */
-  static unbounded<K extends KeyScalar, V>(entries?: Iterable<[K, V]>): LRUMap<K, V> {
-    return new LRUMap<K, V>(-1, entries)
+  static unbounded<K, V>(entries?: Iterable<[K, V]>, options?: LRUOptions<K, V>): LRUMap<K, V> {
+    return new LRUMap<K, V>(-1, entries, options)
+  }
+
+  /**
+   * Changes the maximum number of entries to hold, or makes the map
+   * unbounded with -1. The entries overflowing the new capacity are
+   * evicted immediately, and passed to the onEvict callback
+   *
+   * @param {number} capacity the new maximum number of entries to hold
+   * @return {*}  {this}
+   * @throws {Error} if the capacity is 0 or 1
+   * @memberof LRUMap
+   */
+  resize(capacity: number): this {
+    this.assertCapacityIsValid(capacity)
+    this.changeCapacity(capacity)
+    return this
+  }
+
+  /**
+   * Creates an LRUMap from a snapshot taken with dump or toJSON, with
+   * the snapshot's capacity and its entries in their recency order
+   *
+   * @static
+   * @template K the type of the map keys
+   * @template V the type of the map values
+   * @param {(string | LRUSnapshot<K>)} snapshot the snapshot, or its JSON string
+   * @param {LRUOptions<K, V> & LoadOptions<V>} [options] optional settings of the new map, and the value serializer
+   * @return {*}  {LRUMap<K, V>}
+   * @throws {Error} if the snapshot is malformed, of a newer version, or of an LRUSizedMap
+   * @memberof LRUMap
+   */
+  static load<K, V>(snapshot: string | LRUSnapshot<K>, options: LRUOptions<K, V> & LoadOptions<V> = {}): LRUMap<K, V> {
+    const parsed = readSnapshot(snapshot, 'LRUMap')
+    const map = new LRUMap<K, V>(parsed.capacity, undefined, options)
+    map.restore(parsed, options.serializer)
+    return map
+  }
+
+  /**
+   * Creates an LRUMap from a snapshot. Alias of load
+   *
+   * @static
+   * @template K the type of the map keys
+   * @template V the type of the map values
+   * @param {(string | LRUSnapshot<K>)} snapshot the snapshot, or its JSON string
+   * @param {LRUOptions<K, V> & LoadOptions<V>} [options] optional settings of the new map, and the value serializer
+   * @return {*}  {LRUMap<K, V>}
+   * @memberof LRUMap
+   */
+  static fromJSON<K, V>(snapshot: string | LRUSnapshot<K>, options?: LRUOptions<K, V> & LoadOptions<V>): LRUMap<K, V> {
+    return LRUMap.load(snapshot, options)
   }
 }
 
@@ -398,50 +1844,97 @@ export class LRUMap<K extends KeyScalar, V> extends LRUAbstractMap<K, V> {
  * with the get and set methods
  *
  * LRU affinity is based on the total bytes stored. Oldest item(s) are
- * evicted once the defined max byte capacity is surpassed. Max byte
- * capacity only registers the size of the entry's _value_. Actual byte sizes
- * of the keys and the map structure itself have no impact on the
- * calculated memory footprint of the data set as a whole.
+ * evicted once the defined max byte capacity is surpassed. By default, max
+ * byte capacity only registers the size of the entry's _value_. Actual byte
+ * sizes of the keys and the map structure itself have no impact on the
+ * calculated memory footprint of the data set as a whole, unless the
+ * countKeys and entryOverhead options are used to include them. The
+ * maxItems option limits the number of entries as well, and entries are
+ * evicted until every limit is satisfied.
  *
  * Since this LRU implementation must keep track of the byte size consumed
- * by the entry values, values types are constrained to String and Buffer types,
- * as well as LRUSizedArray which wraps a native Javascript array, which is also
- * constrained by those same types.
+ * by the entry values, values types are by default constrained to String and
+ * Buffer types, as well as LRUSizedArray which wraps a native Javascript array,
+ * which is also constrained by those same types. Values of any other type
+ * can be held by supplying a sizeOf calculator.
  *
  * @export
  * @class LRUSizedMap
- * @template K the type of the map keys, constrained to string, number or symbol
- * @template V the type of the map values, constrained to String, Buffer and LRUSizedArray
+ * @template K the type of the map keys
+ * @template V the type of the map values, String, Buffer or LRUSizedArray unless a sizeOf calculator is supplied
  */
-export class LRUSizedMap<K extends KeyScalar, V extends ByteLengthAware> extends LRUAbstractMap<K, V> {
+export class LRUSizedMap<K, V = ByteLengthAware> extends LRUAbstractMap<K, V> {
+
+  protected readonly snapshotType = 'LRUSizedMap'
+
+  /**
+   * The string tag of the map, used by Object.prototype.toString
+   *
+   * @readonly
+   * @type {string}
+   * @memberof LRUSizedMap
+   */
+  get [Symbol.toStringTag](): string {
+    return 'LRUSizedMap'
+  }
 
   // Current tally of bytes used
   private bytesUsed = 0
 
+  // Calculates the byte size of each value
+  private readonly sizeOf: SizeCalculator<K, V>
+
+  // How string keys are counted, or null when keys are not counted
+  private readonly keyEncoding: Nullable<StringEncoding>
+
+  // Bytes added to the size of each entry
+  private readonly entryOverhead: number
+
+  // The maximum number of entries, or -1 if unbounded
+  readonly maxItems: number
+
+  // The largest size of a single entry, and the limit it was set to, regardless of the capacity
+  private maxEntrySize: number
+  private readonly entrySizeLimit: number
+  private readonly oversize: 'skip' | 'throw'
+
   /**
    * Creates an instance of an LRUMap that manages its size by the accumulated
-   * byte size of all entities. All entries must be String, Buffer or LRUSizedArray.
+   * byte size of all entities. Unless a sizeOf calculator is supplied, all
+   * entries must be String, Buffer or LRUSizedArray.
    *
    * @param {number} maxBytes the maximum number of entries to hold
    * @param {Iterable<[K, V]>} [entries] optional iterable of key-value tuples to initiate the map. LRU ordering is applied immediately to initial entries
+   * @param {LRUSizedOptions<K, V>} [options] optional sizing, expiration and eviction settings
    * @throws {Error} if a zero or negative value is supplied for the maxBytes parameter
+   * @throws {Error} if an unsupported string encoding is supplied
+   * @throws {Error} if the entry overhead is negative or not finite
+   * @throws {Error} if maxItems or maxEntrySize is not a positive number, or oversize is unknown
    * @throws {Error} if an invalid type is detected as an item in the optional entries parameter
    * @memberof LRUSizedMap
    */
-  constructor(maxBytes: number, entries?: Iterable<[K, V]>) {
-    super(LRUMemoryStrategy.BYTES, maxBytes)
-    if (maxBytes < 1)
-      throw new Error(`Invalid maxBytes capacity (${maxBytes}). LRU byte capacity must be > 1`)
+  constructor(maxBytes: number, entries?: Iterable<[K, V]>, options: LRUSizedOptions<K, V> = {}) {
+    super(LRUMemoryStrategy.BYTES, maxBytes, undefined, options)
+    const encoding = options.encoding ?? 'utf8'
+    assertEncodingIsValid(encoding)
+    this.sizeOf = options.sizeOf ?? (value => byteLengthOf(value, encoding))
+    this.keyEncoding = options.countKeys ? encoding : null
+    this.entryOverhead = options.entryOverhead ?? 0
+    if (typeof this.entryOverhead !== 'number' || !Number.isFinite(this.entryOverhead) || this.entryOverhead < 0)
+      throw new Error(`Invalid entryOverhead (${this.entryOverhead}). Entry overhead must be a finite, non-negative number of bytes`)
+    this.maxItems = options.maxItems ?? -1
+    if (options.maxItems !== undefined && !(typeof options.maxItems === 'number' && options.maxItems >= 1))
+      throw new Error(`Invalid maxItems (${options.maxItems}). Must be a number >= 1`)
+    this.entrySizeLimit = options.maxEntrySize ?? Infinity
+    this.maxEntrySize = Math.min(this.entrySizeLimit, maxBytes)
+    if (!(typeof this.maxEntrySize === 'number' && this.maxEntrySize > 0))
+      throw new Error(`Invalid maxEntrySize (${options.maxEntrySize}). Must be a positive number of bytes`)
+    this.oversize = options.oversize ?? 'skip'
+    if (this.oversize !== 'skip' && this.oversize !== 'throw')
+      throw new Error(`Invalid oversize '${this.oversize}'. Must be 'skip' or 'throw'`)
     if (entries) {
-      const all = [...entries].reverse()
-      for (let i = 0; i < all.length; i++) {
-        const [key, value] = all[i]
-        this.assertValueIsValid(value)
-        this.accommodate(value.length)
-        this.items.push(Entry.of([key, value]))
-        this.frames.set(key, i)
-        this.bytesUsed += value.length
-      }
+      for (const [key, value] of entries)
+        this.set(key, value)
     }
   }
 
@@ -456,9 +1949,74 @@ export class LRUSizedMap<K extends KeyScalar, V extends ByteLengthAware> extends
     return this.bytesUsed
   }
 
+  /**
+   * Changes the maximum number of bytes to hold. The entries overflowing
+   * the new capacity are evicted immediately, and passed to the onEvict
+   * callback. The maxEntrySize is capped by the new capacity
+   *
+   * @param {number} maxBytes the new maximum number of bytes to hold
+   * @return {*}  {this}
+   * @throws {Error} if maxBytes is less than 1
+   * @memberof LRUSizedMap
+   */
+  setMaxBytes(maxBytes: number): this {
+    this.assertCapacityIsValid(maxBytes)
+    this.maxEntrySize = Math.min(this.entrySizeLimit, maxBytes)
+    this.changeCapacity(maxBytes)
+    return this
+  }
+
+  /**
+   * Creates an LRUSizedMap from a snapshot taken with dump or toJSON, with
+   * the snapshot's max bytes and its entries in their recency order
+   *
+   * @static
+   * @template K the type of the map keys
+   * @template V the type of the map values
+   * @param {(string | LRUSnapshot<K>)} snapshot the snapshot, or its JSON string
+   * @param {LRUSizedOptions<K, V> & LoadOptions<V>} [options] optional settings of the new map, and the value serializer
+   * @return {*}  {LRUSizedMap<K, V>}
+   * @throws {Error} if the snapshot is malformed, of a newer version, or of an LRUMap
+   * @memberof LRUSizedMap
+   */
+  static load<K, V = ByteLengthAware>(snapshot: string | LRUSnapshot<K>, options: LRUSizedOptions<K, V> & LoadOptions<V> = {}): LRUSizedMap<K, V> {
+    const parsed = readSnapshot(snapshot, 'LRUSizedMap')
+    const map = new LRUSizedMap<K, V>(parsed.capacity, undefined, options)
+    map.restore(parsed, options.serializer)
+    return map
+  }
+
+  /**
+   * Creates an LRUSizedMap from a snapshot. Alias of load
+   *
+   * @static
+   * @template K the type of the map keys
+   * @template V the type of the map values
+   * @param {(string | LRUSnapshot<K>)} snapshot the snapshot, or its JSON string
+   * @param {LRUSizedOptions<K, V> & LoadOptions<V>} [options] optional settings of the new map, and the value serializer
+   * @return {*}  {LRUSizedMap<K, V>}
+   * @memberof LRUSizedMap
+   */
+  static fromJSON<K, V = ByteLengthAware>(snapshot: string | LRUSnapshot<K>, options?: LRUSizedOptions<K, V> & LoadOptions<V>): LRUSizedMap<K, V> {
+    return LRUSizedMap.load(snapshot, options)
+  }
+
+  /**
+   * Gets the bytes used by the map for statistics
+   *
+   * @override
+   * @readonly
+   * @protected
+   * @type {number}
+   * @memberof LRUSizedMap
+   */
+  protected get usage(): number {
+    return this.bytesUsed
+  }
+
   /**
    * Sets or replaces an entry in the map with key and
-   * registers recent use O(N)
+   * registers recent use O(1)
    *
    * Note that this method may cause the overall memory footprint
    * to exceed the max bytes capacity momentarily, as the eviction process
@@ -468,86 +2026,207 @@ export class LRUSizedMap<K extends KeyScalar, V extends ByteLengthAware> extends
    * @override
    * @param {K} key the key
    * @param {V} value the value
+   * @param {SetOptions} [options] optional per-entry settings
    * @return {*}  {this}
    * @memberof LRUSizedMap
    * @throws {Error} if an invalid type is provided as the value
+   * @throws {Error} if the calculated size is negative or not finite
+   * @throws {Error} if the size exceeds maxEntrySize and oversize is 'throw'
    */
-  set(key: K, value: V): this {
-    this.assertValueIsValid(value)
-    if (this.has(key))
-      this.bytesUsed -= this.peek(key).length
-    this.bytesUsed += value.length
-    return super.set(key, value)
+  set(key: K, value: V, options?: SetOptions): this {
+    return super.set(key, value, options)
   }
 
   /**
    * Ensures the memory capacity will not overflow prior to inserting
-   * or updating an entry with 'set' by removing the least recently used
-   * items until the LRU map can accommodate the new value's size
+   * or updating an entry with 'set' by evicting the entries chosen by
+   * the eviction policy, the least recently used by default, until the
+   * LRU map can accommodate the new value's size. The entry overhead is
+   * added to the bytes to clear, as is the byte length of the key when
+   * one is provided and keys are counted. With TinyLFU admission, nothing
+   * is evicted for a new key that would not be admitted
    *
    * @param {number} bytes the byte size to clear
+   * @param {K} [key] the key of the entry to be set
    * @return {*}  {this}
    * @memberof LRUSizedMap
    */
-  accommodate(bytes: number): this {
-    if (!this.size)
+  accommodate(bytes: number, key?: K): this {
+    bytes += this.overheadOf(key)
+    if (this.oversized(bytes))
       return this
-    while (this.bytesUsed + bytes > this.capacity) {
-      this.delete(this.tail.key)
+    const adding = key !== undefined && !this.frames.has(key)
+    if (adding && !this.admits(key, bytes))
+      return this
+    while (this.size && this.exceeds(this.bytesUsed + bytes, this.size + (adding ? 1 : 0))) {
+      this.discard(this.victim(), 'evict')
     }
+    this.flushDisposals()
     return this
   }
 
   /**
-   * Removes an entry from the map and returns the removed entry's value O(N)
+   * Clears all entries from the map
    *
    * @override
-   * @param {K} key the key
-   * @return {*}  {Nullable<V>} the removed item, which could be null
    * @memberof LRUSizedMap
    */
-  remove(key: K): Nullable<V> {
-    this.bytesUsed -= this.peek(key)?.length ?? 0
-    return super.remove(key)
+  clear(): void {
+    this.bytesUsed = 0
+    return super.clear()
   }
 
   /**
-   * Clears all entries from the map
+   * Evicts the entries chosen by the eviction policy until the map fits its capacity
    *
    * @override
+   * @protected
    * @memberof LRUSizedMap
    */
-  clear(): void {
-    this.bytesUsed = 0
-    return super.clear()
+  protected evictOverflow() {
+    while (this.size && this.exceeds(this.bytesUsed, this.size)) {
+      this.discard(this.victim(), 'evict')
+    }
   }
 
   /**
-   * Evict all oldest references that do not fit into the capacity
+   * Evicts the entries chosen by the eviction policy until the map can
+   * hold the total size of a batch, leaving out oversized entries. As
+   * with accommodate, the sizes of replaced values are not deducted
    *
    * @override
    * @protected
+   * @param {[K, V][]} batch
+   * @throws {Error} if the size of an entry is invalid, before any entry is evicted
    * @memberof LRUSizedMap
    */
-  protected evictOverflow() {
-    if (!this.size)
-      return
-    while (this.bytesUsed > this.capacity) {
-      this.delete(this.tail.key)
+  protected reserve(batch: [K, V][]) {
+    let bytes = 0
+    for (const [key, value] of batch) {
+      const size = this.weigh(key, value)
+      if (!this.oversized(size))
+        bytes += size
+    }
+    const adding = new Set(batch.map(([key]) => key).filter(key => !this.frames.has(key))).size
+    while (this.size && this.exceeds(this.bytesUsed + bytes, this.size + adding)) {
+      this.discard(this.victim(), 'evict')
     }
   }
 
   /**
-   * Asserts the value is of an acceptable type
+   * Tells whether a number of bytes and entries exceeds any limit
    *
    * @private
+   * @param {number} bytes
+   * @param {number} items
+   * @return {*}  {boolean}
+   * @memberof LRUSizedMap
+   */
+  private exceeds(bytes: number, items: number): boolean {
+    return bytes > this.capacity || (this.maxItems >= 0 && items > this.maxItems)
+  }
+
+  /**
+   * Tells whether an entry of a size exceeds maxEntrySize
+   *
+   * @override
+   * @protected
+   * @param {number} size
+   * @return {*}  {boolean}
+   * @memberof LRUSizedMap
+   */
+  protected oversized(size: number): boolean {
+    return size > this.maxEntrySize
+  }
+
+  /**
+   * Tells whether adding an entry of a size would overflow the byte capacity or maxItems
+   *
+   * @override
+   * @protected
+   * @param {number} size
+   * @return {*}  {boolean}
+   * @memberof LRUSizedMap
+   */
+  protected overflows(size: number): boolean {
+    return this.exceeds(this.bytesUsed + size, this.size + 1)
+  }
+
+  /**
+   * Removes an entry from the frame index and the recency list, and
+   * releases its bytes from the tally
+   *
+   * @override
+   * @protected
+   * @param {Entry<K, V>} entry
+   * @memberof LRUSizedMap
+   */
+  protected dropFrame(entry: Entry<K, V>) {
+    this.bytesUsed -= entry.size
+    super.dropFrame(entry)
+  }
+
+  /**
+   * Gets the serializer used by dump and load when none is provided,
+   * which encodes Buffer and LRUSizedArray values safely
+   *
+   * @override
+   * @protected
+   * @return {*}  {ValueSerializer<V>}
+   * @memberof LRUSizedMap
+   */
+  protected defaultSerializer(): ValueSerializer<V> {
+    return bufferSafeSerializer
+  }
+
+  /**
+   * Calculates the byte size of an entry: the size of its value from the
+   * sizeOf calculator, plus the entry overhead and key length if counted
+   *
+   * @override
+   * @protected
+   * @param {K} key
    * @param {V} value
+   * @return {*}  {number}
+   * @throws {Error} if the calculated size is negative or not finite
+   * @throws {Error} if the size exceeds maxEntrySize and oversize is 'throw'
+   * @memberof LRUSizedMap
+   */
+  protected weigh(key: K, value: V): number {
+    const size = this.sizeOf(value, key)
+    if (typeof size !== 'number' || !Number.isFinite(size) || size < 0)
+      throw new Error(`Invalid size (${size}) calculated for key ${describeKey(key)}. Sizes must be finite, non-negative numbers`)
+    const total = size + this.overheadOf(key)
+    if (this.oversize === 'throw' && this.oversized(total))
+      throw new Error(`Invalid size (${total}) of the entry for key ${describeKey(key)}. Entries must not exceed maxEntrySize (${this.maxEntrySize})`)
+    return total
+  }
+
+  /**
+   * Gets the bytes an entry occupies beyond its value
+   *
+   * @private
+   * @param {K} [key]
+   * @return {*}  {number}
+   * @memberof LRUSizedMap
+   */
+  private overheadOf(key?: K): number {
+    if (this.keyEncoding === null || key === undefined)
+      return this.entryOverhead
+    return this.entryOverhead + keyByteLengthOf(key, this.keyEncoding)
+  }
+
+  /**
+   * Records the byte size of an inserted or updated entry in the tally
+   *
+   * @override
+   * @protected
+   * @param {Entry<K, V>} entry
+   * @param {number} size
    * @memberof LRUSizedMap
    */
-  private assertValueIsValid(value: V) {
-    if (Array.isArray(value))
-      throw new Error('LRUSizedMap does not accept native JS arrays. Consider using the LRUSizedArray wrapper instead')
-    if (typeof value !== 'string' && !(value as any instanceof Buffer) && !(value as any instanceof LRUSizedArray))
-      throw new Error(`LRUSizedMap can only accept string, Buffer or LRUSizedArray types. Provided '${typeof value}'`)
+  protected track(entry: Entry<K, V>, size: number) {
+    this.bytesUsed += size - entry.size
+    super.track(entry, size)
   }
 }
@@ -0,0 +1,269 @@
+import { LRUMap, LRUSizedMap } from './LRUMap'
+
+/**
+ * A sample of the process's memory usage, in bytes
+ */
+export interface MemorySample {
+  heapUsed: number
+  rss: number
+}
+
+/**
+ * Samples the process's memory usage. Defaults to process.memoryUsage
+ */
+export type MemoryProbe = () => MemorySample
+
+export interface MemoryPressureOptions {
+  /**
+   * The heap usage, in bytes, above which caches are shrunk
+   */
+  heapHighWater?: number
+  /**
+   * The resident set size, in bytes, above which caches are shrunk
+   */
+  rssHighWater?: number
+  /**
+   * The fraction of the high-water marks memory usage must drop below
+   * before capacity is restored. Defaults to 0.9, so caches are not
+   * shrunk and restored over and over around a high-water mark
+   */
+  lowWaterRatio?: number
+  /**
+   * The fraction of their capacity caches are shrunk by at each check
+   * under pressure, and restored by at each check once pressure drops.
+   * Defaults to 0.1
+   */
+  step?: number
+  /**
+   * The smallest fraction of their capacity caches are shrunk to.
+   * Defaults to 0.1
+   */
+  minRatio?: number
+  /**
+   * Number of milliseconds between checks. Defaults to 1000, and 0 means
+   * memory is only checked by check
+   */
+  interval?: number
+  /**
+   * Samples the memory usage. Defaults to process.memoryUsage
+   */
+  probe?: MemoryProbe
+  /**
+   * Called when a background check fails, when evicting from a cache
+   * throws. Without it, the error is thrown
+   */
+  onError?: (error: unknown) => void
+}
+
+export interface RegistrationOptions {
+  /**
+   * The priority of the cache, a number >= 1. A cache is shrunk by the
+   * pressure level divided by its priority, so a cache of priority 2 is
+   * shrunk half as much as a cache of priority 1. Defaults to 1
+   */
+  priority?: number
+  /**
+   * The capacity the cache is never shrunk below. Defaults to 2 entries
+   * for an LRUMap and 1 byte for an LRUSizedMap
+   */
+  minCapacity?: number
+}
+
+type Cache = LRUMap<unknown, unknown> | LRUSizedMap<unknown, unknown>
+
+/**
+ * A registered cache, and the capacity it had when registered
+ */
+interface Registration {
+  capacity: number
+  priority: number
+  minCapacity: number
+}
+
+/**
+ * Shrinks registered caches while the process's memory usage is above
+ * high-water marks, and restores their capacity once it drops. At each
+ * check under pressure, the pressure level rises by a step, and each
+ * cache is resized to the fraction of its capacity the level and its
+ * priority leave it. Caches are resized with resize or setMaxBytes, so
+ * the entries overflowing them are evicted immediately
+ *
+ * @export
+ * @class MemoryPressureController
+ */
+export class MemoryPressureController {
+
+  private readonly caches: Map<Cache, Registration> = new Map()
+  private readonly probe: MemoryProbe
+  private readonly lowWaterRatio: number
+  private readonly step: number
+  private readonly minRatio: number
+  private readonly timer: ReturnType<typeof setInterval>
+  // The number of steps the pressure level rose by
+  private steps = 0
+
+  /**
+   * Creates a memory pressure controller, which checks the memory usage
+   * at an interval unless the interval is 0
+   *
+   * @param {MemoryPressureOptions} options
+   * @throws {Error} if neither heapHighWater nor rssHighWater is a positive number
+   * @throws {Error} if lowWaterRatio, step or minRatio is not a number > 0 and <= 1
+   * @memberof MemoryPressureController
+   */
+  constructor(private readonly options: MemoryPressureOptions) {
+    const { heapHighWater, rssHighWater } = options
+    if (heapHighWater === undefined && rssHighWater === undefined)
+      throw new Error('Invalid memory pressure options. A heapHighWater or rssHighWater must be provided')
+    assertBytesAreValid('heapHighWater', heapHighWater)
+    assertBytesAreValid('rssHighWater', rssHighWater)
+    this.lowWaterRatio = options.lowWaterRatio ?? 0.9
+    this.step = options.step ?? 0.1
+    this.minRatio = options.minRatio ?? 0.1
+    assertRatioIsValid('lowWaterRatio', this.lowWaterRatio)
+    assertRatioIsValid('step', this.step)
+    assertRatioIsValid('minRatio', this.minRatio)
+    this.probe = options.probe ?? (() => process.memoryUsage())
+    const interval = options.interval ?? 1000
+    if (interval > 0) {
+      this.timer = setInterval(() => this.checkInBackground(), interval)
+      this.timer.unref?.()
+    }
+  }
+
+  /**
+   * The pressure level: the fraction of their capacity caches of
+   * priority 1 are currently shrunk by
+   *
+   * @readonly
+   * @type {number}
+   * @memberof MemoryPressureController
+   */
+  get level(): number {
+    return Math.min(this.steps * this.step, 1 - this.minRatio)
+  }
+
+  /**
+   * Registers a cache to shrink under pressure. Its current capacity is
+   * the capacity it is restored to
+   *
+   * @param {(LRUMap<any, any> | LRUSizedMap<any, any>)} cache
+   * @param {RegistrationOptions} [options]
+   * @return {*}  {this}
+   * @throws {Error} if the cache is unbounded
+   * @throws {Error} if the priority is not a number >= 1, or minCapacity is not a valid capacity of the cache
+   * @memberof MemoryPressureController
+   */
+  register(cache: LRUMap<any, any> | LRUSizedMap<any, any>, options: RegistrationOptions = {}): this {
+    if (this.caches.has(cache))
+      this.unregister(cache)
+    if (cache.capacity < 0)
+      throw new Error('Invalid cache. An unbounded LRUMap has no capacity to shrink')
+    const priority = options.priority ?? 1
+    if (!(typeof priority === 'number' && priority >= 1))
+      throw new Error(`Invalid priority (${priority}). Must be a number >= 1`)
+    const minCapacity = options.minCapacity ?? (cache instanceof LRUSizedMap ? 1 : 2)
+    if (!(typeof minCapacity === 'number' && minCapacity >= (cache instanceof LRUSizedMap ? 1 : 2)))
+      throw new Error(`Invalid minCapacity (${options.minCapacity}). Must be a valid capacity of the cache`)
+    const registration = { capacity: cache.capacity, priority, minCapacity }
+    this.caches.set(cache, registration)
+    this.apply(cache, registration)
+    return this
+  }
+
+  /**
+   * Stops shrinking a cache, and restores its capacity
+   *
+   * @param {(LRUMap<any, any> | LRUSizedMap<any, any>)} cache
+   * @return {*}  {boolean} whether the cache was registered
+   * @memberof MemoryPressureController
+   */
+  unregister(cache: LRUMap<any, any> | LRUSizedMap<any, any>): boolean {
+    const registration = this.caches.get(cache)
+    if (!registration)
+      return false
+    this.caches.delete(cache)
+    resize(cache, registration.capacity)
+    return true
+  }
+
+  /**
+   * Samples the memory usage, raising the pressure level above the
+   * high-water marks and lowering it below the low-water marks, then
+   * resizes the caches to the new level
+   *
+   * @return {*}  {number} the new pressure level
+   * @memberof MemoryPressureController
+   */
+  check(): number {
+    const { heapUsed, rss } = this.probe()
+    const { heapHighWater, rssHighWater } = this.options
+    const ratio = Math.max(heapHighWater ? heapUsed / heapHighWater : 0, rssHighWater ? rss / rssHighWater : 0)
+    const level = this.level
+    if (ratio > 1 && level < 1 - this.minRatio)
+      this.steps++
+    else if (ratio < this.lowWaterRatio && this.steps > 0)
+      this.steps--
+    if (this.level !== level) {
+      for (const [cache, registration] of this.caches)
+        this.apply(cache, registration)
+    }
+    return this.level
+  }
+
+  /**
+   * Stops checking the memory usage, and restores the capacity of all
+   * caches
+   *
+   * @memberof MemoryPressureController
+   */
+  close() {
+    if (this.timer)
+      clearInterval(this.timer)
+    for (const cache of [...this.caches.keys()])
+      this.unregister(cache)
+    this.steps = 0
+  }
+
+  /**
+   * Resizes a cache to the capacity the pressure level leaves it
+   *
+   * @private
+   * @param {Cache} cache
+   * @param {Registration} registration
+   * @memberof MemoryPressureController
+   */
+  private apply(cache: Cache, { capacity, priority, minCapacity }: Registration) {
+    const shrunk = Math.round(capacity * (1 - this.level / priority))
+    resize(cache, Math.min(capacity, Math.max(shrunk, minCapacity)))
+  }
+
+  private checkInBackground() {
+    try {
+      this.check()
+    } catch (error) {
+      if (!this.options.onError)
+        throw error
+      this.options.onError(error)
+    }
+  }
+}
+
+function resize(cache: Cache, capacity: number) {
+  if (cache.capacity === capacity)
+    return
+  if (cache instanceof LRUSizedMap)
+    cache.setMaxBytes(capacity)
+  else
+    cache.resize(capacity)
+}
+
+function assertBytesAreValid(name: string, bytes: number) {
+  if (bytes !== undefined && !(typeof bytes === 'number' && bytes > 0))
+    throw new Error(`Invalid ${name} (${bytes}). Must be a positive number of bytes`)
+}
+
+function assertRatioIsValid(name: string, ratio: number) {
+  if (!(typeof ratio === 'number' && ratio > 0 && ratio <= 1))
+    throw new Error(`Invalid ${name} (${ratio}). Must be a number > 0 and <= 1`)
+}
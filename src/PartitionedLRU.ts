@@ -0,0 +1,379 @@
+import { KeyIndex } from './KeyIndex'
+import { EvictionReason, LRUMap, LRUOptions, LRUSizedMap, LRUSizedOptions, SetOptions } from './LRUMap'
+import { LRUStats, StatsCounter } from './Stats'
+import { Nullable } from './Types'
+
+/**
+ * The guarantees and caps of a namespace, in the capacity unit of the
+ * partitioned cache: entries, or bytes when sized
+ */
+export interface PartitionLimits {
+  /**
+   * The usage the namespace keeps, however much other namespaces need
+   * room. Defaults to 0
+   */
+  min?: number
+  /**
+   * The capacity of the namespace's partition. Defaults to the global
+   * capacity
+   */
+  max?: number
+}
+
+export interface PartitionedLRUOptions<N, K, V> {
+  /**
+   * When true, partitions are LRUSizedMaps, and capacities are counted
+   * in bytes
+   */
+  sized?: boolean
+  /**
+   * How the partition giving up an entry is chosen when the global
+   * capacity overflows: 'lru' (the default) chooses the partition with
+   * the least recently used entry of all, while 'fair' chooses the
+   * partition using the most beyond its minimum
+   */
+  eviction?: 'lru' | 'fair'
+  /**
+   * The limits of namespaces, by namespace
+   */
+  limits?: Iterable<[N, PartitionLimits]>
+  /**
+   * The options every partition is created with. Statistics are enabled
+   * unless disabled here
+   */
+  partitionOptions?: LRUOptions<K, V> | LRUSizedOptions<K, V>
+}
+
+type Partition<K, V> = LRUMap<K, V> | LRUSizedMap<K, V>
+
+/**
+ * A partition, with the sequence numbers of the last uses of its keys
+ */
+interface PartitionState<K, V> {
+  map: Partition<K, V>
+  stamps: KeyIndex<K, number>
+}
+
+/**
+ * A cache of LRU partitions by namespace, for instance by tenant, which
+ * share a global capacity. Each namespace can be guaranteed a minimum
+ * usage and capped to a maximum. Whenever the partitions overflow the
+ * global capacity, entries are evicted from the partition with the
+ * least recently used entry of all, or by the fairness rule, skipping
+ * partitions at or below their minimum. Partitions evict their entries
+ * with their own eviction policy, the least recently used by default
+ *
+ * @export
+ * @class PartitionedLRU
+ * @template N the type of the namespaces
+ * @template K the type of the keys
+ * @template V the type of the values
+ */
+export class PartitionedLRU<N, K, V> {
+
+  private readonly partitions: Map<N, PartitionState<K, V>> = new Map()
+  private readonly limits: Map<N, PartitionLimits> = new Map()
+  private readonly sized: boolean
+  private readonly eviction: 'lru' | 'fair'
+  private readonly partitionOptions: LRUOptions<K, V> | LRUSizedOptions<K, V>
+
+  // The sequence number of the last use of any key
+  private clock = 0
+
+  /**
+   * Creates an instance of PartitionedLRU.
+   *
+   * @param {number} capacity the global capacity, in entries, or bytes when sized
+   * @param {PartitionedLRUOptions<N, K, V>} [options]
+   * @throws {Error} if the capacity is less than 2 entries, or 1 byte when sized
+   * @throws {Error} if the eviction rule is unknown
+   * @throws {Error} if the limits of a namespace are invalid
+   * @memberof PartitionedLRU
+   */
+  constructor(readonly capacity: number, options: PartitionedLRUOptions<N, K, V> = {}) {
+    this.sized = options.sized ?? false
+    if (!(typeof capacity === 'number' && capacity >= this.smallestCapacity))
+      throw new Error(`Invalid capacity (${capacity}). Must be a number >= ${this.smallestCapacity}`)
+    this.eviction = options.eviction ?? 'lru'
+    if (this.eviction !== 'lru' && this.eviction !== 'fair')
+      throw new Error(`Invalid eviction '${this.eviction}'. Must be 'lru' or 'fair'`)
+    this.partitionOptions = options.partitionOptions ?? {}
+    for (const [namespace, limits] of options.limits ?? [])
+      this.setLimits(namespace, limits)
+  }
+
+  /**
+   * Gets the number of entries of all partitions
+   *
+   * @readonly
+   * @type {number}
+   * @memberof PartitionedLRU
+   */
+  get size(): number {
+    let size = 0
+    for (const { map } of this.partitions.values())
+      size += map.size
+    return size
+  }
+
+  /**
+   * Gets the usage of all partitions, in entries, or bytes when sized
+   *
+   * @readonly
+   * @type {number}
+   * @memberof PartitionedLRU
+   */
+  get used(): number {
+    let used = 0
+    for (const { map } of this.partitions.values())
+      used += usageOf(map)
+    return used
+  }
+
+  /**
+   * Sets the limits of a namespace, resizing its partition if it exists
+   *
+   * @param {N} namespace
+   * @param {PartitionLimits} limits
+   * @return {*}  {this}
+   * @throws {Error} if min is negative or exceeds max
+   * @throws {Error} if the minimums of all namespaces exceed the capacity
+   * @throws {Error} if max is not a valid capacity of a partition, or exceeds the capacity
+   * @memberof PartitionedLRU
+   */
+  setLimits(namespace: N, limits: PartitionLimits): this {
+    const { min = 0, max = this.capacity } = limits
+    if (!(typeof max === 'number' && max >= this.smallestCapacity && max <= this.capacity))
+      throw new Error(`Invalid max (${max}) of namespace '${String(namespace)}'. Must be a number >= ${this.smallestCapacity} and <= the capacity (${this.capacity})`)
+    if (!(typeof min === 'number' && min >= 0 && min <= max))
+      throw new Error(`Invalid min (${min}) of namespace '${String(namespace)}'. Must be a non-negative number <= max (${max})`)
+    let reserved = min
+    for (const [other, { min: otherMin = 0 }] of this.limits) {
+      if (other !== namespace)
+        reserved += otherMin
+    }
+    if (reserved > this.capacity)
+      throw new Error(`Invalid min (${min}) of namespace '${String(namespace)}'. The minimums of all namespaces must not exceed the capacity (${this.capacity})`)
+    this.limits.set(namespace, { min, max })
+    const partition = this.partitions.get(namespace)
+    if (partition) {
+      if (partition.map instanceof LRUSizedMap)
+        partition.map.setMaxBytes(max)
+      else
+        partition.map.resize(max)
+    }
+    return this
+  }
+
+  /**
+   * Gets the partition of a namespace, creating it if needed. Values set
+   * in the partition directly count towards the global capacity too
+   *
+   * @param {N} namespace
+   * @return {*}  {(LRUMap<K, V> | LRUSizedMap<K, V>)}
+   * @memberof PartitionedLRU
+   */
+  partition(namespace: N): LRUMap<K, V> | LRUSizedMap<K, V> {
+    return (this.partitions.get(namespace) ?? this.createPartition(namespace)).map
+  }
+
+  /**
+   * Iterates over the namespaces with a partition
+   *
+   * @return {*}  {IterableIterator<N>}
+   * @memberof PartitionedLRU
+   */
+  namespaces(): IterableIterator<N> {
+    return this.partitions.keys()
+  }
+
+  /**
+   * Gets a value from the partition of a namespace and registers recent use
+   *
+   * @param {N} namespace
+   * @param {K} key
+   * @return {*}  {Nullable<V>}
+   * @memberof PartitionedLRU
+   */
+  get(namespace: N, key: K): Nullable<V> {
+    return this.partitions.get(namespace)?.map.get(key) ?? null
+  }
+
+  /**
+   * Gets a value from the partition of a namespace without registering recent use
+   *
+   * @param {N} namespace
+   * @param {K} key
+   * @return {*}  {Nullable<V>}
+   * @memberof PartitionedLRU
+   */
+  peek(namespace: N, key: K): Nullable<V> {
+    return this.partitions.get(namespace)?.map.peek(key) ?? null
+  }
+
+  /**
+   * Sets a value in the partition of a namespace, then evicts entries
+   * until all partitions fit the global capacity
+   *
+   * @param {N} namespace
+   * @param {K} key
+   * @param {V} value
+   * @param {SetOptions} [options]
+   * @return {*}  {this}
+   * @memberof PartitionedLRU
+   */
+  set(namespace: N, key: K, value: V, options?: SetOptions): this {
+    this.partition(namespace).set(key, value, options)
+    return this
+  }
+
+  /**
+   * Checks whether the partition of a namespace has a key
+   *
+   * @param {N} namespace
+   * @param {K} key
+   * @return {*}  {boolean}
+   * @memberof PartitionedLRU
+   */
+  has(namespace: N, key: K): boolean {
+    return this.partitions.get(namespace)?.map.has(key) ?? false
+  }
+
+  /**
+   * Removes an entry from the partition of a namespace
+   *
+   * @param {N} namespace
+   * @param {K} key
+   * @return {*}  {boolean} true if a live entry was removed
+   * @memberof PartitionedLRU
+   */
+  delete(namespace: N, key: K): boolean {
+    return this.partitions.get(namespace)?.map.delete(key) ?? false
+  }
+
+  /**
+   * Clears and drops the partition of a namespace. Its limits are kept
+   *
+   * @param {N} namespace
+   * @return {*}  {boolean} whether the namespace had a partition
+   * @memberof PartitionedLRU
+   */
+  clearNamespace(namespace: N): boolean {
+    const partition = this.partitions.get(namespace)
+    if (!partition)
+      return false
+    this.partitions.delete(namespace)
+    partition.map.clear()
+    return true
+  }
+
+  /**
+   * Clears and drops all partitions
+   *
+   * @memberof PartitionedLRU
+   */
+  clear() {
+    for (const namespace of [...this.partitions.keys()])
+      this.clearNamespace(namespace)
+  }
+
+  /**
+   * Gets the statistics of the partition of a namespace, all zero if it
+   * has no partition
+   *
+   * @param {N} namespace
+   * @return {*}  {LRUStats}
+   * @memberof PartitionedLRU
+   */
+  stats(namespace: N): LRUStats {
+    return this.partitions.get(namespace)?.map.stats() ?? new StatsCounter().snapshot(0, this.sized ? 0 : undefined)
+  }
+
+  /**
+   * The smallest valid capacity of a partition
+   *
+   * @readonly
+   * @private
+   * @type {number}
+   * @memberof PartitionedLRU
+   */
+  private get smallestCapacity(): number {
+    return this.sized ? 1 : 2
+  }
+
+  /**
+   * Creates the partition of a namespace, stamping the keys it sets and
+   * reads, and evicting across partitions once it sets a value
+   *
+   * @private
+   * @param {N} namespace
+   * @return {*}  {PartitionState<K, V>}
+   * @memberof PartitionedLRU
+   */
+  private createPartition(namespace: N): PartitionState<K, V> {
+    const max = this.limits.get(namespace)?.max ?? this.capacity
+    const options = { stats: true, ...this.partitionOptions }
+    const map: Partition<K, V> = this.sized ? new LRUSizedMap<K, V>(max, undefined, options) : new LRUMap<K, V>(max, undefined, options)
+    const stamps = new KeyIndex<K, number>(options.keyHash, options.keyEquals)
+    const partition = { map, stamps }
+    map.on('hit', key => stamps.set(key, ++this.clock))
+    map.on('set', key => {
+      stamps.set(key, ++this.clock)
+      this.evictOverflow()
+    })
+    map.on('evict', (key: K, value: V, reason: EvictionReason) => {
+      // A replaced value leaves its key in the map
+      if (reason !== 'set')
+        stamps.delete(key)
+    })
+    map.on('clear', () => stamps.clear())
+    this.partitions.set(namespace, partition)
+    return partition
+  }
+
+  /**
+   * Evicts entries until all partitions fit the global capacity
+   *
+   * @private
+   * @memberof PartitionedLRU
+   */
+  private evictOverflow() {
+    while (this.used > this.capacity) {
+      const victim = this.victim()
+      if (!victim)
+        return
+      victim.map.evict()
+    }
+  }
+
+  /**
+   * Chooses the partition to evict an entry from: the one with the least
+   * recently used entry of all, or with 'fair' eviction, the one using
+   * the most beyond its minimum. Partitions at or below their minimum
+   * are never chosen
+   *
+   * @private
+   * @return {*}  {(PartitionState<K, V> | undefined)}
+   * @memberof PartitionedLRU
+   */
+  private victim(): PartitionState<K, V> | undefined {
+    let victim: PartitionState<K, V>
+    let lowest = Infinity
+    for (const [namespace, partition] of this.partitions) {
+      const usage = usageOf(partition.map)
+      const min = this.limits.get(namespace)?.min ?? 0
+      if (!partition.map.size || usage <= min)
+        continue
+      const score = this.eviction === 'fair' ? min - usage : partition.stamps.get(partition.map.tail.key) ?? 0
+      if (score < lowest) {
+        victim = partition
+        lowest = score
+      }
+    }
+    return victim
+  }
+}
+
+function usageOf<K, V>(map: Partition<K, V>): number {
+  return map instanceof LRUSizedMap ? map.used : map.size
+}
@@ -0,0 +1,83 @@
+/**
+ * A value of a secondary store, with the absolute time it expires at
+ */
+export interface StoredValue<V> {
+  value: V
+  /**
+   * The time the value expires at, by the clock of its cache, or 0 if never
+   */
+  expiresAt: number
+}
+
+/**
+ * A slower, asynchronous store backing the in-memory tier of a
+ * TieredCache. Stores keep the expiration times of values, while the
+ * cache checks them
+ */
+export interface SecondaryStore<K, V> {
+  /**
+   * Resolves the value of a key and its expiration time, or undefined if
+   * the store has none
+   */
+  get(key: K): Promise<StoredValue<V> | undefined>
+  /**
+   * Stores the value of a key, with the time it expires at (0 if never)
+   */
+  set(key: K, value: V, expiresAt?: number): Promise<void>
+  /**
+   * Removes a key, resolving whether the store had it
+   */
+  delete(key: K): Promise<boolean>
+  clear(): Promise<void>
+}
+
+/**
+ * A secondary store holding values in memory, standing in for a real
+ * store in tests
+ *
+ * @export
+ * @class MemoryStore
+ * @template K the type of the keys
+ * @template V the type of the values
+ */
+export class MemoryStore<K, V> implements SecondaryStore<K, V> {
+
+  private readonly values: Map<K, StoredValue<V>> = new Map()
+
+  /**
+   * Gets the number of values in the store
+   *
+   * @readonly
+   * @type {number}
+   * @memberof MemoryStore
+   */
+  get size(): number {
+    return this.values.size
+  }
+
+  async get(key: K): Promise<StoredValue<V> | undefined> {
+    return this.values.get(key)
+  }
+
+  async set(key: K, value: V, expiresAt: number = 0): Promise<void> {
+    this.values.set(key, { value, expiresAt })
+  }
+
+  async delete(key: K): Promise<boolean> {
+    return this.values.delete(key)
+  }
+
+  async clear(): Promise<void> {
+    this.values.clear()
+  }
+
+  /**
+   * Iterates over the keys in the store
+   *
+   * @return {*}  {IterableIterator<K>}
+   * @memberof MemoryStore
+   */
+  keys(): IterableIterator<K> {
+    return this.values.keys()
+  }
+}
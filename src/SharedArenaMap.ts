@@ -0,0 +1,234 @@
+import { describeKey, LRUSizedMap, LRUSizedOptions, SetOptions } from './LRUMap'
+
+/**
+ * Allocates blocks of a fixed range of bytes, first fit, from a list of
+ * free blocks sorted by offset. Adjacent free blocks are merged
+ */
+class Arena {
+
+  // Free blocks as [offset, length] pairs, sorted by offset
+  private readonly free: [number, number][]
+
+  constructor(size: number) {
+    this.free = [[0, size]]
+  }
+
+  /**
+   * Allocates a block, returning its offset, or -1 if no free block is
+   * large enough
+   */
+  allocate(length: number): number {
+    const index = this.free.findIndex(([, free]) => free >= length)
+    if (index < 0)
+      return -1
+    const block = this.free[index]
+    const offset = block[0]
+    if (block[1] === length)
+      this.free.splice(index, 1)
+    else
+      this.free[index] = [offset + length, block[1] - length]
+    return offset
+  }
+
+  release(offset: number, length: number) {
+    let index = this.free.findIndex(([free]) => free > offset)
+    if (index < 0)
+      index = this.free.length
+    this.free.splice(index, 0, [offset, length])
+    // Merges with the next block, then with the previous one
+    const next = this.free[index + 1]
+    if (next && offset + length === next[0]) {
+      this.free[index] = [offset, length + next[1]]
+      this.free.splice(index + 1, 1)
+    }
+    const previous = this.free[index - 1]
+    if (previous && previous[0] + previous[1] === offset) {
+      this.free[index - 1] = [previous[0], previous[1] + this.free[index][1]]
+      this.free.splice(index, 1)
+    }
+  }
+
+  reset(size: number) {
+    this.free.splice(0, this.free.length, [0, size])
+  }
+}
+
+export type SharedArenaOptions<K> = Omit<LRUSizedOptions<K, Buffer>, 'sizeOf' | 'weakEvicted'>
+
+/**
+ * An LRUSizedMap of Buffer values whose bytes are kept in an arena of
+ * shared memory, a SharedArrayBuffer of maxBytes. Values set are copied
+ * into the arena, and the map holds Buffer views of it, which can be
+ * posted to worker threads without copying their bytes. A view is only
+ * valid until its entry leaves the map, after which its bytes may be
+ * reused by another value, so receivers must copy values they keep.
+ * Fetched values are copied into the arena as set values are, while
+ * values stored by restore or load are held as they are, outside of it
+ *
+ * @export
+ * @class SharedArenaMap
+ * @template K the type of the map keys
+ */
+export class SharedArenaMap<K> extends LRUSizedMap<K, Buffer> {
+
+  /**
+   * The shared memory holding the values' bytes
+   *
+   * @type {SharedArrayBuffer}
+   * @memberof SharedArenaMap
+   */
+  readonly buffer: SharedArrayBuffer
+
+  private readonly arena: Arena
+
+  // The views allocated in the arena, by offset
+  private readonly views: Map<number, Buffer>
+
+  /**
+   * Creates an instance of SharedArenaMap.
+   *
+   * @param {number} maxBytes the size of the arena, and the maximum number of bytes to hold
+   * @param {Iterable<[K, Buffer]>} [entries] optional iterable of key-value tuples to initiate the map
+   * @param {SharedArenaOptions<K>} [options] optional sizing, expiration and eviction settings
+   * @throws {Error} if maxBytes is not a whole number >= 1
+   * @throws {Error} if weakEvicted is enabled, since evicted views may be reused
+   * @memberof SharedArenaMap
+   */
+  constructor(maxBytes: number, entries?: Iterable<[K, Buffer]>, options: SharedArenaOptions<K> = {}) {
+    super(maxBytes, undefined, { ...options, sizeOf: value => value.byteLength })
+    if (!Number.isInteger(maxBytes))
+      throw new Error(`Invalid maxBytes capacity (${maxBytes}). The arena size must be a whole number of bytes`)
+    if ((options as LRUSizedOptions<K, Buffer>).weakEvicted)
+      throw new Error('Invalid weakEvicted. Evicted values of a SharedArenaMap are reused, and cannot be held weakly')
+    this.buffer = new SharedArrayBuffer(maxBytes)
+    this.arena = new Arena(maxBytes)
+    this.views = new Map()
+    if (entries) {
+      for (const [key, value] of entries)
+        this.set(key, value)
+    }
+  }
+
+  /**
+   * The string tag of the map, used by Object.prototype.toString
+   *
+   * @readonly
+   * @type {string}
+   * @memberof SharedArenaMap
+   */
+  get [Symbol.toStringTag](): string {
+    return 'SharedArenaMap'
+  }
+
+  /**
+   * Copies a value into the arena, evicting entries until a block of the
+   * arena is free for it, then sets its view in the map
+   *
+   * @override
+   * @param {K} key the key
+   * @param {Buffer} value the value, a Buffer or any Uint8Array
+   * @param {SetOptions} [options] optional per-entry settings
+   * @return {*}  {this}
+   * @throws {Error} if the value is not a Uint8Array
+   * @throws {Error} if the size exceeds maxEntrySize and oversize is 'throw'
+   * @memberof SharedArenaMap
+   */
+  set(key: K, value: Buffer, options?: SetOptions): this {
+    if (!(value instanceof Uint8Array))
+      throw new Error(`Invalid value for key ${describeKey(key)}. A SharedArenaMap only holds Buffers and Uint8Arrays`)
+    const view = this.allocate(value.byteLength)
+    if (!view)
+      return super.set(key, value, options)
+    view.set(value)
+    const previous = this.frames.get(key)?.value
+    try {
+      super.set(key, view, options)
+    } finally {
+      // The replaced value, and the new one if it was rejected, leave the arena
+      const current = this.frames.get(key)?.value
+      if (previous && previous !== current)
+        this.release(previous)
+      if (view !== current)
+        this.release(view)
+    }
+    return this
+  }
+
+  /**
+   * Changes the maximum number of bytes to hold, up to the size of the
+   * arena
+   *
+   * @override
+   * @param {number} maxBytes
+   * @return {*}  {this}
+   * @throws {Error} if maxBytes is less than 1 or larger than the arena
+   * @memberof SharedArenaMap
+   */
+  setMaxBytes(maxBytes: number): this {
+    if (maxBytes > this.buffer.byteLength)
+      throw new Error(`Invalid maxBytes capacity (${maxBytes}). Must not exceed the size of the arena (${this.buffer.byteLength})`)
+    return super.setMaxBytes(maxBytes)
+  }
+
+  /**
+   * Clears all entries from the map, freeing the whole arena
+   *
+   * @override
+   * @memberof SharedArenaMap
+   */
+  clear(): void {
+    this.views.clear()
+    this.arena.reset(this.buffer.byteLength)
+    return super.clear()
+  }
+
+  /**
+   * Removes an entry, freeing its block of the arena
+   *
+   * @override
+   * @protected
+   * @param {MapEntry<K, Buffer>} entry
+   * @memberof SharedArenaMap
+   */
+  protected dropFrame(entry: Parameters<LRUSizedMap<K, Buffer>['dropFrame']>[0]) {
+    super.dropFrame(entry)
+    this.release(entry.value)
+  }
+
+  /**
+   * Allocates a view of the arena, evicting entries until a block is
+   * free. Returns null for a value too large to be stored
+   *
+   * @private
+   * @param {number} length
+   * @return {*}  {(Buffer | null)}
+   * @memberof SharedArenaMap
+   */
+  private allocate(length: number): Buffer | null {
+    if (length === 0 || this.oversized(length))
+      return null
+    let offset = this.arena.allocate(length)
+    while (offset < 0 && this.evict())
+      offset = this.arena.allocate(length)
+    if (offset < 0)
+      return null
+    const view = Buffer.from(this.buffer, offset, length)
+    this.views.set(offset, view)
+    return view
+  }
+
+  /**
+   * Frees the block of a view, unless the view is not allocated in the
+   * arena, or was already freed
+   *
+   * @private
+   * @param {Buffer} view
+   * @memberof SharedArenaMap
+   */
+  private release(view: Buffer) {
+    if (this.views.get(view.byteOffset) !== view)
+      return
+    this.views.delete(view.byteOffset)
+    this.arena.release(view.byteOffset, view.byteLength)
+  }
+}
@@ -0,0 +1,121 @@
+import { StringEncoding, stringByteLength } from './Encoding'
+import { LRUSizedArray } from './LRUArray'
+
+/**
+ * Calculates the size of a value held by an LRUSizedMap
+ */
+export type SizeCalculator<K, V> = (value: V, key: K) => number
+
+/**
+ * Gets the byte length of a string, Buffer or LRUSizedArray, with strings
+ * counted in the given encoding. This is the default size calculator of
+ * the LRUSizedMap
+ *
+ * @export
+ * @param {*} value
+ * @param {StringEncoding} [encoding='utf8']
+ * @return {*}  {number}
+ * @throws {Error} if the value is not a string, Buffer or LRUSizedArray
+ */
+export function byteLengthOf(value: any, encoding: StringEncoding = 'utf8'): number {
+  if (Array.isArray(value))
+    throw new Error('LRUSizedMap does not accept native JS arrays. Consider using the LRUSizedArray wrapper instead')
+  if (typeof value === 'string')
+    return stringByteLength(value, encoding)
+  if (value instanceof LRUSizedArray)
+    return value.byteLength(encoding)
+  if (value instanceof Buffer)
+    return value.length
+  throw new Error(`LRUSizedMap can only accept string, Buffer or LRUSizedArray types. Provided '${typeof value}'`)
+}
+
+/**
+ * Gets the byte length of a map key. String keys are counted in the given
+ * encoding, while any other key is counted as eight bytes, the size of a
+ * number or of a reference
+ *
+ * @export
+ * @param {*} key
+ * @param {StringEncoding} [encoding='utf8']
+ * @return {*}  {number}
+ */
+export function keyByteLengthOf(key: any, encoding: StringEncoding = 'utf8'): number {
+  if (typeof key === 'string')
+    return stringByteLength(key, encoding)
+  return 8
+}
+
+/**
+ * Gets the byte length of binary data: an ArrayBuffer, SharedArrayBuffer,
+ * DataView, Buffer, or any typed array
+ *
+ * @export
+ * @param {*} value
+ * @return {*}  {number}
+ * @throws {Error} if the value is not binary data
+ */
+export function binaryLengthOf(value: any): number {
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer)
+    return value.byteLength
+  if (typeof SharedArrayBuffer !== 'undefined' && value instanceof SharedArrayBuffer)
+    return value.byteLength
+  throw new Error(`Cannot calculate the binary length of a non-binary value. Provided '${typeof value}'`)
+}
+
+/**
+ * Roughly estimates the heap footprint of any value by walking its
+ * structure. Strings are counted as two bytes per code unit, numbers
+ * as eight bytes, and objects as the sum of their keys and values.
+ * Values referenced more than once are only counted once
+ *
+ * @export
+ * @param {*} value
+ * @return {*}  {number}
+ */
+export function estimateSizeOf(value: any): number {
+  return estimate(value, new Set())
+}
+
+function estimate(value: any, seen: Set<object>): number {
+  switch (typeof value) {
+    case 'string':
+      return value.length * 2
+    case 'number':
+      return 8
+    case 'boolean':
+      return 4
+    case 'bigint':
+      return 8 + Math.ceil(value.toString(16).length / 2)
+    case 'symbol':
+      return 8
+    case 'undefined':
+    case 'function':
+      return 0
+  }
+  if (value === null || seen.has(value))
+    return 0
+  seen.add(value)
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer)
+    return value.byteLength
+  if (value instanceof LRUSizedArray)
+    return estimate(value.items, seen)
+  let size = 0
+  if (value instanceof Map) {
+    for (const [k, v] of value)
+      size += estimate(k, seen) + estimate(v, seen)
+    return size
+  }
+  if (value instanceof Set) {
+    for (const v of value)
+      size += estimate(v, seen)
+    return size
+  }
+  if (Array.isArray(value)) {
+    for (const v of value)
+      size += estimate(v, seen)
+    return size
+  }
+  for (const key of Object.keys(value))
+    size += key.length * 2 + estimate(value[key], seen)
+  return size
+}
@@ -0,0 +1,135 @@
+import { LRUSizedArray } from './LRUArray'
+
+/**
+ * The current version of the snapshot format. Snapshots of newer
+ * versions are rejected when loaded
+ */
+export const SNAPSHOT_VERSION = 1
+
+/**
+ * Converts values to and from a JSON-safe representation
+ */
+export interface ValueSerializer<V> {
+  serialize(value: V): unknown
+  deserialize(data: unknown): V
+}
+
+export interface LoadOptions<V> {
+  /**
+   * Restores values from the snapshot. Defaults to the map's own default serializer
+   */
+  serializer?: ValueSerializer<V>
+}
+
+export interface SnapshotEntry<K> {
+  key: K
+  value: unknown
+  /**
+   * Absolute time in milliseconds the entry expires at, if it has a ttl
+   */
+  expiresAt?: number
+  /**
+   * Absolute time in milliseconds the entry goes stale at, if it has a staleAfter
+   */
+  staleAt?: number
+  /**
+   * The tags of the entry, if it has any
+   */
+  tags?: string[]
+}
+
+/**
+ * A JSON-safe snapshot of an LRU map
+ */
+export interface LRUSnapshot<K = any> {
+  version: number
+  type: 'LRUMap' | 'LRUSizedMap'
+  capacity: number
+  /**
+   * The entries, from newest to oldest
+   */
+  entries: SnapshotEntry<K>[]
+}
+
+/**
+ * Passes values through unchanged, for values that are already JSON-safe.
+ * This is the default serializer of the LRUMap
+ */
+export const identitySerializer: ValueSerializer<any> = {
+  serialize: value => value,
+  deserialize: data => data,
+}
+
+/**
+ * Serializes strings as they are, and encodes Buffers as base64 and
+ * LRUSizedArrays as arrays of their serialized items. This is the default
+ * serializer of the LRUSizedMap
+ */
+export const bufferSafeSerializer: ValueSerializer<any> = {
+  serialize(value: any): unknown {
+    if (value instanceof Buffer)
+      return { $type: 'Buffer', data: value.toString('base64') }
+    if (value instanceof LRUSizedArray)
+      return { $type: 'LRUSizedArray', items: value.items.map(item => bufferSafeSerializer.serialize(item)) }
+    return value
+  },
+  deserialize(data: any): any {
+    switch (data?.$type) {
+      case 'Buffer':
+        return Buffer.from(data.data, 'base64')
+      case 'LRUSizedArray':
+        return new LRUSizedArray(data.items.map((item: unknown) => bufferSafeSerializer.deserialize(item)))
+    }
+    return data
+  },
+}
+
+/**
+ * Parses and validates a snapshot
+ *
+ * @export
+ * @param {(string | LRUSnapshot)} snapshot the snapshot, or its JSON string
+ * @param {LRUSnapshot['type']} type the type of map loading the snapshot
+ * @return {*}  {LRUSnapshot}
+ * @throws {Error} if the snapshot is malformed, of a newer version, or of another type of map
+ * @throws {Error} if the capacity or an entry of the snapshot is invalid
+ */
+export function readSnapshot(snapshot: string | LRUSnapshot, type: LRUSnapshot['type']): LRUSnapshot {
+  const parsed: LRUSnapshot = typeof snapshot === 'string' ? JSON.parse(snapshot) : snapshot
+  if (typeof parsed?.version !== 'number' || !Array.isArray(parsed.entries))
+    throw new Error('Invalid snapshot. Expected an object with a version and entries')
+  if (parsed.version > SNAPSHOT_VERSION)
+    throw new Error(`Unsupported snapshot version (${parsed.version}). This version of the library reads snapshots up to version ${SNAPSHOT_VERSION}`)
+  if (parsed.type !== type)
+    throw new Error(`Cannot load a snapshot of ${parsed.type} into ${type}`)
+  if (!isCapacityValid(parsed.capacity, type))
+    throw new Error(`Invalid snapshot. Invalid capacity (${parsed.capacity}) of ${type}`)
+  const index = parsed.entries.findIndex(entry => !isEntryValid(entry))
+  if (index >= 0)
+    throw new Error(`Invalid snapshot. Malformed entry at index ${index}`)
+  return parsed
+}
+
+/**
+ * Tells whether a capacity follows the rules of the map's constructor:
+ * an integer > 1 or unbounded (-1) for an LRUMap, and >= 1 for an LRUSizedMap
+ */
+function isCapacityValid(capacity: unknown, type: LRUSnapshot['type']): boolean {
+  if (typeof capacity !== 'number' || !Number.isInteger(capacity))
+    return false
+  return type === 'LRUMap' ? capacity === -1 || capacity > 1 : capacity >= 1
+}
+
+/**
+ * Tells whether an entry has a key and a value, and optional times and
+ * tags of the right types
+ */
+function isEntryValid(entry: SnapshotEntry<unknown>): boolean {
+  if (typeof entry !== 'object' || entry === null || !('key' in entry) || !('value' in entry))
+    return false
+  if (entry.expiresAt !== undefined && typeof entry.expiresAt !== 'number')
+    return false
+  if (entry.staleAt !== undefined && typeof entry.staleAt !== 'number')
+    return false
+  return entry.tags === undefined || (Array.isArray(entry.tags) && entry.tags.every(tag => typeof tag === 'string'))
+}
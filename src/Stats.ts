@@ -0,0 +1,116 @@
+import { EvictionReason } from './LRUMap'
+
+/**
+ * A snapshot of the statistics of an LRU map
+ */
+export interface LRUStats {
+  /**
+   * Lookups that found a live entry
+   */
+  hits: number
+  /**
+   * Lookups that found no entry, or an expired one
+   */
+  misses: number
+  /**
+   * Calls to set, including values stored by fetch and refreshes
+   */
+  sets: number
+  /**
+   * Calls to set that replaced the value of an existing entry
+   */
+  overwrites: number
+  /**
+   * Values that left the map, or were replaced, by reason
+   */
+  evictions: Record<EvictionReason, number>
+  /**
+   * The ratio of hits to all lookups, or 0 before any lookup
+   */
+  hitRatio: number
+  size: number
+  peakSize: number
+  /**
+   * Bytes used, reported by LRUSizedMap only
+   */
+  used?: number
+  peakUsed?: number
+}
+
+/**
+ * Tallies the statistics of an LRU map
+ *
+ * @export
+ * @class StatsCounter
+ */
+export class StatsCounter {
+
+  hits = 0
+  misses = 0
+  sets = 0
+  overwrites = 0
+  evictions: Record<EvictionReason, number> = StatsCounter.noEvictions()
+  private peakSize = 0
+  private peakUsed = 0
+
+  /**
+   * Records the current size and bytes used, raising the peaks
+   *
+   * @param {number} size
+   * @param {number} [used]
+   * @memberof StatsCounter
+   */
+  observe(size: number, used?: number) {
+    this.peakSize = Math.max(this.peakSize, size)
+    if (used !== undefined)
+      this.peakUsed = Math.max(this.peakUsed, used)
+  }
+
+  /**
+   * Resets all counters, and the peaks to the current size and bytes used
+   *
+   * @param {number} size
+   * @param {number} [used]
+   * @memberof StatsCounter
+   */
+  reset(size: number, used?: number) {
+    this.hits = 0
+    this.misses = 0
+    this.sets = 0
+    this.overwrites = 0
+    this.evictions = StatsCounter.noEvictions()
+    this.peakSize = size
+    this.peakUsed = used ?? 0
+  }
+
+  /**
+   * Takes a snapshot of the statistics
+   *
+   * @param {number} size
+   * @param {number} [used]
+   * @return {*}  {LRUStats}
+   * @memberof StatsCounter
+   */
+  snapshot(size: number, used?: number): LRUStats {
+    const lookups = this.hits + this.misses
+    const stats: LRUStats = {
+      hits: this.hits,
+      misses: this.misses,
+      sets: this.sets,
+      overwrites: this.overwrites,
+      evictions: { ...this.evictions },
+      hitRatio: lookups ? this.hits / lookups : 0,
+      size,
+      peakSize: Math.max(this.peakSize, size),
+    }
+    if (used !== undefined) {
+      stats.used = used
+      stats.peakUsed = Math.max(this.peakUsed, used)
+    }
+    return stats
+  }
+
+  private static noEvictions(): Record<EvictionReason, number> {
+    return { evict: 0, demote: 0, delete: 0, set: 0, clear: 0, expire: 0, reject: 0 }
+  }
+}
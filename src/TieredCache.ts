@@ -0,0 +1,319 @@
+import { EvictionReason, LRUMap, LRUSizedMap, SetOptions } from './LRUMap'
+import { SecondaryStore, StoredValue } from './SecondaryStore'
+import { Nullable } from './Types'
+
+/**
+ * A read of the secondary store in flight
+ */
+interface PendingRead<V> {
+  value: Promise<Nullable<V>>
+  stale: boolean
+}
+
+export interface TieredCacheOptions {
+  /**
+   * 'through' (the default) writes every value to both tiers, while
+   * 'back' writes values to the secondary store only when they are
+   * evicted from memory, or flushed
+   */
+  writeMode?: 'through' | 'back'
+  /**
+   * Called when spilling an evicted value to the secondary store fails.
+   * Without it, the error is rethrown by the next flush
+   */
+  onError?: (error: unknown) => void
+  /**
+   * The clock the expiration times of stored values are checked with,
+   * which must agree with the clock of the map. Defaults to Date.now
+   */
+  clock?: () => number
+}
+
+/**
+ * A two-tier cache: an in-memory LRUMap or LRUSizedMap, the first tier,
+ * backed by a slower asynchronous secondary store. Values the map evicts
+ * for capacity, or rejects, spill into the secondary store, and reads
+ * missing the map check the secondary store and promote hits back into
+ * the map. Expired values are not spilled, and the secondary store keeps
+ * the expiration times of values, so that they expire in both tiers
+ *
+ * @export
+ * @class TieredCache
+ * @template K the type of the keys
+ * @template V the type of the values
+ */
+export class TieredCache<K, V> {
+
+  private readonly writeMode: 'through' | 'back'
+  private readonly clock: () => number
+
+  // The expiration times of the values in memory which expire, stored along with them
+  private readonly expiries: Map<K, number> = new Map()
+
+  // The value being set, whose expiration time the map reports no set event of if it rejects it
+  private setting: Nullable<{ key: K, expiresAt: number }> = null
+
+  // Values being spilled, readable until written to the secondary store
+  private readonly spilling: Map<K, StoredValue<V>> = new Map()
+  private readonly writes: Set<Promise<void>> = new Set()
+  private failure: Nullable<{ error: unknown }> = null
+
+  // Reads of the secondary store in flight, which are not promoted when a write or delete of their key races them
+  private readonly reads: Map<K, PendingRead<V>> = new Map()
+
+  private readonly onSet = (key: K, value: V, { expiresAt }: { expiresAt: number }) => {
+    if (expiresAt)
+      this.expiries.set(key, expiresAt)
+    else
+      this.expiries.delete(key)
+  }
+
+  private readonly onEvict = (key: K, value: V, reason: EvictionReason) => {
+    // With write-through, the secondary store already has every value
+    if (this.writeMode === 'back' && (reason === 'evict' || reason === 'demote' || reason === 'reject'))
+      this.spill(key, value, this.expiryOf(key, reason))
+    // A replaced value leaves its key in memory, with the expiration time of the new value
+    if (reason !== 'set')
+      this.expiries.delete(key)
+  }
+
+  /**
+   * Creates a tiered cache, which spills the values the map evicts into
+   * the secondary store
+   *
+   * @param {(LRUMap<K, V> | LRUSizedMap<K, V>)} memory the first tier
+   * @param {SecondaryStore<K, V>} store the second tier
+   * @param {TieredCacheOptions} [options]
+   * @throws {Error} if the write mode is unknown
+   * @memberof TieredCache
+   */
+  constructor(readonly memory: LRUMap<K, V> | LRUSizedMap<K, V>, readonly store: SecondaryStore<K, V>, private readonly options: TieredCacheOptions = {}) {
+    this.writeMode = options.writeMode ?? 'through'
+    if (this.writeMode !== 'through' && this.writeMode !== 'back')
+      throw new Error(`Invalid writeMode '${this.writeMode}'. Must be 'through' or 'back'`)
+    this.clock = options.clock ?? Date.now
+    this.memory.on('set', this.onSet)
+    this.memory.on('evict', this.onEvict)
+  }
+
+  /**
+   * Gets a value from memory, or else from the secondary store, promoting
+   * it back into memory with the time it has left to live, unless it expired
+   *
+   * @param {K} key
+   * @return {*}  {Promise<Nullable<V>>} the value, or null if neither tier has it
+   * @memberof TieredCache
+   */
+  async get(key: K): Promise<Nullable<V>> {
+    if (this.memory.has(key))
+      return this.memory.get(key)
+    if (this.spilling.has(key))
+      return this.promote(key, this.spilling.get(key))
+    return (this.reads.get(key) ?? this.read(key)).value
+  }
+
+  /**
+   * Sets a value in memory and, with write-through, in the secondary store
+   * along with its expiration time
+   *
+   * @param {K} key
+   * @param {V} value
+   * @param {SetOptions} [options] optional per-entry settings of the map
+   * @return {*}  {Promise<void>}
+   * @memberof TieredCache
+   */
+  async set(key: K, value: V, options?: SetOptions): Promise<void> {
+    this.invalidate(key)
+    this.spilling.delete(key)
+    const ttl = options?.ttl ?? 0
+    const setting = { key, expiresAt: ttl > 0 ? this.clock() + ttl : 0 }
+    this.setting = setting
+    try {
+      this.memory.set(key, value, options)
+    } finally {
+      this.setting = null
+    }
+    if (this.writeMode === 'through')
+      await this.store.set(key, value, this.memory.has(key) ? this.expiries.get(key) ?? 0 : setting.expiresAt)
+  }
+
+  /**
+   * Removes a key from both tiers
+   *
+   * @param {K} key
+   * @return {*}  {Promise<boolean>} whether either tier had the key
+   * @memberof TieredCache
+   */
+  async delete(key: K): Promise<boolean> {
+    this.invalidate(key)
+    const spilled = this.spilling.delete(key)
+    const deleted = this.memory.delete(key)
+    await this.settle()
+    return await this.store.delete(key) || deleted || spilled
+  }
+
+  /**
+   * Clears both tiers
+   *
+   * @return {*}  {Promise<void>}
+   * @memberof TieredCache
+   */
+  async clear(): Promise<void> {
+    for (const read of this.reads.values())
+      read.stale = true
+    this.reads.clear()
+    this.spilling.clear()
+    this.memory.clear()
+    await this.settle()
+    await this.store.clear()
+  }
+
+  /**
+   * Waits for the values being spilled to be written and, with
+   * write-back, writes all values in memory to the secondary store
+   *
+   * @return {*}  {Promise<void>}
+   * @throws {Error} the first error of a spill since the last flush, unless an onError callback handles it
+   * @memberof TieredCache
+   */
+  async flush(): Promise<void> {
+    if (this.writeMode === 'back') {
+      for (const [key, value] of [...this.memory.entries()])
+        await this.store.set(key, value, this.expiries.get(key) ?? 0)
+    }
+    await this.settle()
+    const failure = this.failure
+    this.failure = null
+    if (failure)
+      throw failure.error
+  }
+
+  /**
+   * Flushes, and stops spilling the values the map evicts
+   *
+   * @return {*}  {Promise<void>}
+   * @memberof TieredCache
+   */
+  async close(): Promise<void> {
+    this.memory.off('set', this.onSet)
+    this.memory.off('evict', this.onEvict)
+    await this.flush()
+  }
+
+  /**
+   * Reads a key from the secondary store, promoting the value found
+   * into memory unless a write or delete of the key raced the read, in
+   * which case the value in memory wins
+   *
+   * @private
+   * @param {K} key
+   * @return {*}  {PendingRead<V>}
+   * @memberof TieredCache
+   */
+  private read(key: K): PendingRead<V> {
+    const read: PendingRead<V> = { value: undefined, stale: false }
+    read.value = this.store.get(key)
+      .then(stored => {
+        if (read.stale)
+          return this.memory.peek(key)
+        return stored === undefined ? null : this.promote(key, stored)
+      })
+      .finally(() => {
+        if (this.reads.get(key) === read)
+          this.reads.delete(key)
+      })
+    this.reads.set(key, read)
+    return read
+  }
+
+  /**
+   * Marks the read of a key in flight as stale
+   *
+   * @private
+   * @param {K} key
+   * @memberof TieredCache
+   */
+  private invalidate(key: K) {
+    const read = this.reads.get(key)
+    if (read) {
+      read.stale = true
+      this.reads.delete(key)
+    }
+  }
+
+  /**
+   * Sets a value read from the secondary store in memory with the time it
+   * has left to live, unless it expired
+   *
+   * @private
+   * @param {K} key
+   * @param {StoredValue<V>} stored
+   * @return {*}  {Nullable<V>} the value, or null if it expired
+   * @memberof TieredCache
+   */
+  private promote(key: K, { value, expiresAt }: StoredValue<V>): Nullable<V> {
+    const now = this.clock()
+    if (expiresAt > 0 && expiresAt <= now)
+      return null
+    this.spilling.delete(key)
+    this.memory.set(key, value, expiresAt > 0 ? { ttl: expiresAt - now } : undefined)
+    return value
+  }
+
+  /**
+   * Gets the expiration time of a value leaving memory: the time of its
+   * entry, or else, for a value the map rejected, the time it was set with
+   *
+   * @private
+   * @param {K} key
+   * @param {EvictionReason} reason
+   * @return {*}  {number}
+   * @memberof TieredCache
+   */
+  private expiryOf(key: K, reason: EvictionReason): number {
+    if (reason === 'reject')
+      return this.setting?.key === key ? this.setting.expiresAt : 0
+    return this.expiries.get(key) ?? 0
+  }
+
+  /**
+   * Writes an evicted value to the secondary store in the background
+   *
+   * @private
+   * @param {K} key
+   * @param {V} value
+   * @param {number} expiresAt
+   * @memberof TieredCache
+   */
+  private spill(key: K, value: V, expiresAt: number) {
+    const spilled = { value, expiresAt }
+    this.spilling.set(key, spilled)
+    const write = this.store.set(key, value, expiresAt)
+      .catch(error => this.fail(error))
+      .finally(() => {
+        this.writes.delete(write)
+        if (this.spilling.get(key) === spilled)
+          this.spilling.delete(key)
+      })
+    this.writes.add(write)
+  }
+
+  /**
+   * Waits for all spills in flight
+   *
+   * @private
+   * @return {*}  {Promise<void>}
+   * @memberof TieredCache
+   */
+  private async settle(): Promise<void> {
+    while (this.writes.size)
+      await Promise.all([...this.writes])
+  }
+
+  private fail(error: unknown) {
+    if (this.options.onError)
+      this.options.onError(error)
+    else
+      this.failure = this.failure ?? { error }
+  }
+}
@@ -0,0 +1,150 @@
+import { KeyEquals, KeyHash, KeyIndex } from './KeyIndex'
+import { Nullable } from './Types'
+
+/**
+ * A value held weakly, along with the expiration and staleness times
+ * of the entry it was evicted from
+ */
+interface WeakRecord<K, V> {
+  key: K
+  ref: WeakRef<V & object>
+  expiresAt: number
+  staleAt: number
+  tags: Nullable<string[]>
+}
+
+/**
+ * The value of a weakly held entry that is still alive
+ */
+export interface HeldEntry<V> {
+  value: V
+  expiresAt: number
+  staleAt: number
+  tags: Nullable<string[]>
+}
+
+/**
+ * Holds evicted values weakly until they are garbage collected. The keys
+ * of collected values are cleaned up by a FinalizationRegistry
+ *
+ * @export
+ * @class WeakTier
+ * @template K the type of the keys
+ * @template V the type of the values
+ */
+export class WeakTier<K, V> {
+
+  private readonly records: KeyIndex<K, WeakRecord<K, V>>
+  private readonly registry: FinalizationRegistry<WeakRecord<K, V>>
+
+  /**
+   * Creates an instance of WeakTier.
+   *
+   * @param {KeyHash<K>} [keyHash] derives the hash keys are matched by
+   * @param {KeyEquals<K>} [keyEquals] compares keys with the same hash
+   * @throws {Error} if WeakRef or FinalizationRegistry is not supported
+   * @memberof WeakTier
+   */
+  constructor(keyHash?: KeyHash<K>, keyEquals?: KeyEquals<K>) {
+    if (typeof WeakRef === 'undefined' || typeof FinalizationRegistry === 'undefined')
+      throw new Error('Invalid weakEvicted. WeakRef and FinalizationRegistry are not supported in this environment')
+    this.records = new KeyIndex(keyHash, keyEquals)
+    this.registry = new FinalizationRegistry(record => {
+      if (this.records.get(record.key) === record)
+        this.records.delete(record.key)
+    })
+  }
+
+  /**
+   * The number of values held, some of which may already be collected
+   *
+   * @readonly
+   * @type {number}
+   * @memberof WeakTier
+   */
+  get size(): number {
+    return this.records.size
+  }
+
+  /**
+   * Holds a value weakly. Values that are not objects cannot be held
+   * weakly, and are dropped
+   *
+   * @param {K} key
+   * @param {V} value
+   * @param {number} expiresAt
+   * @param {number} staleAt
+   * @param {Nullable<string[]>} tags
+   * @return {*}  {boolean} whether the value is held
+   * @memberof WeakTier
+   */
+  hold(key: K, value: V, expiresAt: number, staleAt: number, tags: Nullable<string[]>): boolean {
+    this.forget(key)
+    if ((typeof value !== 'object' || value === null) && typeof value !== 'function')
+      return false
+    const record: WeakRecord<K, V> = { key, ref: new WeakRef(value as V & object), expiresAt, staleAt, tags }
+    this.records.set(key, record)
+    this.registry.register(value as V & object, record, record)
+    return true
+  }
+
+  /**
+   * Takes a value out of the tier, if it is still alive
+   *
+   * @param {K} key
+   * @return {*}  {(HeldEntry<V> | undefined)}
+   * @memberof WeakTier
+   */
+  take(key: K): HeldEntry<V> | undefined {
+    const record = this.records.get(key)
+    if (record === undefined)
+      return undefined
+    this.forget(key)
+    const value = record.ref.deref()
+    if (value === undefined)
+      return undefined
+    return { value, expiresAt: record.expiresAt, staleAt: record.staleAt, tags: record.tags }
+  }
+
+  /**
+   * Stops holding the value of a key
+   *
+   * @param {K} key
+   * @memberof WeakTier
+   */
+  forget(key: K) {
+    const record = this.records.get(key)
+    if (record === undefined)
+      return
+    this.records.delete(key)
+    this.registry.unregister(record)
+  }
+
+  /**
+   * Stops holding the values matching a predicate, and the keys of the
+   * values already collected
+   *
+   * @param {(key: K, value: V, tags: Nullable<string[]>) => boolean} predicate
+   * @memberof WeakTier
+   */
+  forgetWhere(predicate: (key: K, value: V, tags: Nullable<string[]>) => boolean) {
+    const forgotten: K[] = []
+    for (const record of this.records.values()) {
+      const value = record.ref.deref()
+      if (value === undefined || predicate(record.key, value, record.tags))
+        forgotten.push(record.key)
+    }
+    for (const key of forgotten)
+      this.forget(key)
+  }
+
+  /**
+   * Stops holding all values
+   *
+   * @memberof WeakTier
+   */
+  clear() {
+    // Stale registrations are ignored by the cleanup callback
+    this.records.clear()
+  }
+}
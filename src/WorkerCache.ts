@@ -0,0 +1,527 @@
+import { MessageChannel, MessagePort } from 'worker_threads'
+import { abortReason, describeKey, FetchOptions, listenForAbort, Loader, LRUMap, LRUSizedMap, SetOptions } from './LRUMap'
+import { Nullable } from './Types'
+
+/**
+ * An error sent between threads
+ */
+interface ErrorData {
+  name: string
+  message: string
+}
+
+/**
+ * An operation a client requests of the coordinator's map
+ */
+type Request<K, V> =
+  | { id: number, op: 'get', key: K }
+  | { id: number, op: 'peek', key: K }
+  | { id: number, op: 'has', key: K }
+  | { id: number, op: 'set', key: K, value: V, options?: SetOptions }
+  | { id: number, op: 'remove', key: K }
+  | { id: number, op: 'fetch', key: K, loads: boolean, options?: SetOptions }
+
+interface Result {
+  id: number
+  value?: unknown
+  error?: ErrorData
+}
+
+/**
+ * The messages a client sends: a batch of requests, the outcome of a
+ * load the coordinator asked it to run, or the abort of a fetch's wait
+ */
+type ClientMessage<K, V> =
+  | { type: 'batch', requests: Request<K, V>[] }
+  | { type: 'loaded', id: number, value?: V, error?: ErrorData }
+  | { type: 'abort', id: number }
+
+/**
+ * The messages the coordinator sends: the results of requests, a request
+ * to run the loader of a fetch, or the abort of a load every waiter gave
+ * up on
+ */
+type CoordinatorMessage<K> =
+  | { type: 'results', results: Result[] }
+  | { type: 'load', id: number, request: number, key: K }
+  | { type: 'abort', id: number }
+
+export interface CacheClientOptions {
+  /**
+   * Milliseconds requests wait to be batched with later requests.
+   * Defaults to 0, which batches the requests made in the same tick
+   */
+  batchDelay?: number
+  /**
+   * The largest number of requests in a batch. Defaults to 256
+   */
+  maxBatchSize?: number
+}
+
+/**
+ * A request waiting for its result
+ */
+interface PendingRequest<K, V> {
+  resolve: (value: any) => void
+  reject: (error: unknown) => void
+  loader?: Loader<K, V>
+}
+
+/**
+ * Owns the authoritative LRUMap or LRUSizedMap of a pool of worker
+ * threads, serving the requests of CacheClients over MessagePorts. Loads
+ * of concurrent fetches of a key are shared across all workers, and run
+ * by the worker which fetched the key first, unless the map has its own
+ * loader. Keys and values are copied between threads with the structured
+ * clone algorithm
+ *
+ * @export
+ * @class CacheCoordinator
+ * @template K the type of the keys
+ * @template V the type of the values
+ */
+export class CacheCoordinator<K, V> {
+
+  private readonly ports: Set<MessagePort> = new Set()
+
+  /**
+   * Creates an instance of CacheCoordinator.
+   *
+   * @param {(LRUMap<K, V> | LRUSizedMap<K, V>)} map the authoritative map
+   * @memberof CacheCoordinator
+   */
+  constructor(readonly map: LRUMap<K, V> | LRUSizedMap<K, V>) { }
+
+  /**
+   * Creates a channel to the coordinator, returning the port to pass to
+   * a worker, in its workerData or a message, as a transferable
+   *
+   * @return {*}  {MessagePort}
+   * @memberof CacheCoordinator
+   */
+  connect(): MessagePort {
+    const { port1, port2 } = new MessageChannel()
+    this.attach(port1)
+    return port2
+  }
+
+  /**
+   * Serves the requests sent over a port
+   *
+   * @param {MessagePort} port
+   * @memberof CacheCoordinator
+   */
+  attach(port: MessagePort) {
+    // Loads the coordinator asked the client to run, by id
+    const loads: Map<number, PendingRequest<K, V>> = new Map()
+    // Aborts the waits of the client's fetches in flight, by request id
+    const waits: Map<number, AbortController> = new Map()
+    let nextLoad = 0
+    const load = (request: number, key: K, signal: AbortSignal) => new Promise<V>((resolve, reject) => {
+      const id = nextLoad++
+      // The map aborts the load once all its waiters abort, which the loading client must hear
+      const stopListening = listenForAbort(signal, () => post(port, { type: 'abort', id }))
+      loads.set(id, {
+        resolve: value => {
+          stopListening()
+          resolve(value)
+        },
+        reject: error => {
+          stopListening()
+          reject(error)
+        },
+      })
+      post(port, { type: 'load', id, request, key })
+    })
+    port.on('message', (message: ClientMessage<K, V>) => {
+      if (message.type === 'abort') {
+        waits.get(message.id)?.abort()
+        return
+      }
+      if (message.type === 'loaded') {
+        const pending = loads.get(message.id)
+        loads.delete(message.id)
+        if (message.error)
+          pending?.reject(toError(message.error))
+        else
+          pending?.resolve(message.value)
+        return
+      }
+      const results: Result[] = []
+      for (const request of message.requests) {
+        if (request.op === 'fetch') {
+          const controller = new AbortController()
+          waits.set(request.id, controller)
+          const loader = request.loads ? (key: K, { signal }: { signal: AbortSignal }) => load(request.id, key, signal) : undefined
+          this.map.fetch(request.key, loader, { ...request.options, signal: controller.signal })
+            .then(
+              (value): Result => ({ id: request.id, value }),
+              (error): Result => ({ id: request.id, error: toErrorData(error) }),
+            )
+            .then(result => {
+              waits.delete(request.id)
+              postResults(port, [result])
+            })
+        } else {
+          results.push(this.serve(request))
+        }
+      }
+      if (results.length)
+        postResults(port, results)
+    })
+    port.on('close', () => {
+      this.ports.delete(port)
+      for (const pending of loads.values())
+        pending.reject(new Error('The worker closed its cache port during a load'))
+      loads.clear()
+    })
+    port.unref()
+    this.ports.add(port)
+  }
+
+  /**
+   * Closes the ports of all clients
+   *
+   * @memberof CacheCoordinator
+   */
+  close() {
+    for (const port of this.ports)
+      port.close()
+    this.ports.clear()
+  }
+
+  /**
+   * Runs a request on the map
+   *
+   * @private
+   * @param {Request<K, V>} request
+   * @return {*}  {Result}
+   * @memberof CacheCoordinator
+   */
+  private serve(request: Exclude<Request<K, V>, { op: 'fetch' }>): Result {
+    const { id } = request
+    try {
+      switch (request.op) {
+        case 'get':
+          return { id, value: this.map.get(request.key) }
+        case 'peek':
+          return { id, value: this.map.peek(request.key) }
+        case 'has':
+          return { id, value: this.map.has(request.key) }
+        case 'set':
+          this.map.set(request.key, request.value, request.options)
+          return { id }
+        case 'remove':
+          return { id, value: this.map.remove(request.key) }
+      }
+    } catch (error) {
+      return { id, error: toErrorData(error) }
+    }
+  }
+}
+
+/**
+ * Accesses the map of a CacheCoordinator from a worker thread. Requests
+ * made in the same tick, or within the batch delay, are sent together
+ * in a single message. The port is only referenced while requests are
+ * pending, so an idle client does not keep its worker alive
+ *
+ * @export
+ * @class CacheClient
+ * @template K the type of the keys
+ * @template V the type of the values
+ */
+export class CacheClient<K, V> {
+
+  private readonly pending: Map<number, PendingRequest<K, V>> = new Map()
+  // Aborts the loads this worker runs for the coordinator, by load id
+  private readonly loads: Map<number, AbortController> = new Map()
+  private queue: Request<K, V>[] = []
+  private scheduled = false
+  private nextId = 0
+  private readonly batchDelay: number
+  private readonly maxBatchSize: number
+
+  /**
+   * Creates a client of a coordinator
+   *
+   * @param {MessagePort} port a port returned by connect of the coordinator
+   * @param {CacheClientOptions} [options]
+   * @throws {Error} if batchDelay is negative, or maxBatchSize is not a number >= 1
+   * @memberof CacheClient
+   */
+  constructor(private readonly port: MessagePort, options: CacheClientOptions = {}) {
+    this.batchDelay = options.batchDelay ?? 0
+    this.maxBatchSize = options.maxBatchSize ?? 256
+    if (typeof this.batchDelay !== 'number' || !(this.batchDelay >= 0))
+      throw new Error(`Invalid batchDelay (${this.batchDelay}). Must be a non-negative number of milliseconds`)
+    if (typeof this.maxBatchSize !== 'number' || !(this.maxBatchSize >= 1))
+      throw new Error(`Invalid maxBatchSize (${this.maxBatchSize}). Must be a number >= 1`)
+    port.on('message', (message: CoordinatorMessage<K>) => this.receive(message))
+    port.on('close', () => this.fail(new Error('The cache port was closed')))
+    port.unref()
+  }
+
+  /**
+   * Gets a value, registering recent use in the coordinator's map
+   *
+   * @param {K} key
+   * @return {*}  {Promise<Nullable<V>>}
+   * @memberof CacheClient
+   */
+  get(key: K): Promise<Nullable<V>> {
+    return this.request({ id: this.nextId++, op: 'get', key })
+  }
+
+  /**
+   * Gets a value without registering recent use
+   *
+   * @param {K} key
+   * @return {*}  {Promise<Nullable<V>>}
+   * @memberof CacheClient
+   */
+  peek(key: K): Promise<Nullable<V>> {
+    return this.request({ id: this.nextId++, op: 'peek', key })
+  }
+
+  has(key: K): Promise<boolean> {
+    return this.request({ id: this.nextId++, op: 'has', key })
+  }
+
+  /**
+   * Sets a value in the coordinator's map
+   *
+   * @param {K} key
+   * @param {V} value
+   * @param {SetOptions} [options]
+   * @return {*}  {Promise<void>}
+   * @memberof CacheClient
+   */
+  set(key: K, value: V, options?: SetOptions): Promise<void> {
+    return this.request({ id: this.nextId++, op: 'set', key, value, options })
+  }
+
+  /**
+   * Removes a key from the coordinator's map
+   *
+   * @param {K} key
+   * @return {*}  {Promise<Nullable<V>>} the removed value, or null
+   * @memberof CacheClient
+   */
+  remove(key: K): Promise<Nullable<V>> {
+    return this.request({ id: this.nextId++, op: 'remove', key })
+  }
+
+  /**
+   * Gets a value, or loads it when missing. The load is shared with the
+   * fetches of the same key by all workers. With a loader, this worker
+   * runs the load if it is the first to fetch the key, and without one,
+   * the map's own loader runs it
+   *
+   * @param {K} key
+   * @param {Loader<K, V>} [loader] loads the value in this worker
+   * @param {FetchOptions} [options] optional abort signal, which aborts this caller's wait only, and per-entry settings
+   * @return {*}  {Promise<V>}
+   * @memberof CacheClient
+   */
+  fetch(key: K, loader?: Loader<K, V>, options: FetchOptions = {}): Promise<V> {
+    const { signal, ttl, staleAfter, tags } = options
+    if (signal?.aborted)
+      return Promise.reject(abortReason(signal))
+    const id = this.nextId++
+    const promise = this.request<V>({ id, op: 'fetch', key, loads: loader !== undefined, options: { ttl, staleAfter, tags } }, loader)
+    if (!signal)
+      return promise
+    return new Promise((resolve, reject) => {
+      const stopListening = listenForAbort(signal, () => {
+        reject(abortReason(signal))
+        this.abort(id, signal)
+      })
+      promise.then(resolve, reject).finally(stopListening)
+    })
+  }
+
+  /**
+   * Closes the port, rejecting the requests still pending
+   *
+   * @memberof CacheClient
+   */
+  close() {
+    this.port.close()
+    this.fail(new Error('The cache client was closed'))
+  }
+
+  /**
+   * Queues a request for the next batch
+   *
+   * @private
+   * @template T the type of the result
+   * @param {Request<K, V>} request
+   * @param {Loader<K, V>} [loader] the loader of a fetch
+   * @return {*}  {Promise<T>}
+   * @memberof CacheClient
+   */
+  private request<T>(request: Request<K, V>, loader?: Loader<K, V>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      if (!this.pending.size)
+        this.port.ref()
+      this.pending.set(request.id, { resolve, reject, loader })
+      this.queue.push(request)
+      if (this.queue.length >= this.maxBatchSize)
+        this.send()
+      else
+        this.schedule()
+    })
+  }
+
+  private schedule() {
+    if (this.scheduled)
+      return
+    this.scheduled = true
+    if (this.batchDelay > 0)
+      setTimeout(() => this.send(), this.batchDelay)
+    else
+      queueMicrotask(() => this.send())
+  }
+
+  /**
+   * Sends the queued requests in a single message
+   *
+   * @private
+   * @memberof CacheClient
+   */
+  private send() {
+    this.scheduled = false
+    if (!this.queue.length)
+      return
+    const requests = this.queue
+    this.queue = []
+    try {
+      post(this.port, { type: 'batch', requests })
+    } catch (error) {
+      for (const { id } of requests)
+        this.settle({ id, error: toErrorData(error) })
+    }
+  }
+
+  /**
+   * Aborts the wait of a fetch: a fetch still queued is dropped, while
+   * the coordinator is told to abort the wait of a fetch already sent
+   *
+   * @private
+   * @param {number} id the id of the fetch
+   * @param {AbortSignal} signal the aborted signal
+   * @memberof CacheClient
+   */
+  private abort(id: number, signal: AbortSignal) {
+    const index = this.queue.findIndex(request => request.id === id)
+    if (index >= 0) {
+      this.queue.splice(index, 1)
+      this.settle({ id, error: toErrorData(abortReason(signal)) })
+    } else if (this.pending.has(id)) {
+      post(this.port, { type: 'abort', id })
+    }
+  }
+
+  private receive(message: CoordinatorMessage<K>) {
+    if (message.type === 'load') {
+      this.load(message.id, message.request, message.key)
+      return
+    }
+    if (message.type === 'abort') {
+      this.loads.get(message.id)?.abort()
+      return
+    }
+    for (const result of message.results)
+      this.settle(result)
+  }
+
+  /**
+   * Runs the loader of a fetch the coordinator asked this worker to load
+   *
+   * @private
+   * @param {number} id the id of the load
+   * @param {number} request the id of the fetch whose loader runs the load
+   * @param {K} key
+   * @memberof CacheClient
+   */
+  private load(id: number, request: number, key: K) {
+    const loader = this.pending.get(request)?.loader
+    const controller = new AbortController()
+    this.loads.set(id, controller)
+    Promise.resolve()
+      .then(() => {
+        if (!loader)
+          throw new Error(`No loader available to fetch key ${describeKey(key)}`)
+        return loader(key, { signal: controller.signal })
+      })
+      .then(
+        (value): ClientMessage<K, V> => ({ type: 'loaded', id, value }),
+        (error): ClientMessage<K, V> => ({ type: 'loaded', id, error: toErrorData(error) }),
+      )
+      .then(message => {
+        this.loads.delete(id)
+        try {
+          post(this.port, message)
+        } catch (error) {
+          // The value cannot be cloned, so the load fails for every fetcher
+          post(this.port, { type: 'loaded', id, error: toErrorData(error) })
+        }
+      })
+  }
+
+  private settle({ id, value, error }: Result) {
+    const pending = this.pending.get(id)
+    if (!pending)
+      return
+    this.pending.delete(id)
+    if (!this.pending.size)
+      this.port.unref()
+    if (error)
+      pending.reject(toError(error))
+    else
+      pending.resolve(value)
+  }
+
+  private fail(error: unknown) {
+    for (const pending of this.pending.values())
+      pending.reject(error)
+    this.pending.clear()
+    this.queue = []
+  }
+}
+
+function post<K, V>(port: MessagePort, message: ClientMessage<K, V> | CoordinatorMessage<K>) {
+  port.postMessage(message)
+}
+
+/**
+ * Posts results in one message or, when a value cannot be cloned, one
+ * message per result, replacing each value that cannot be cloned with
+ * the error
+ */
+function postResults<K>(port: MessagePort, results: Result[]) {
+  try {
+    post<K, never>(port, { type: 'results', results })
+  } catch (error) {
+    for (const result of results) {
+      try {
+        post<K, never>(port, { type: 'results', results: [result] })
+      } catch (error) {
+        post<K, never>(port, { type: 'results', results: [{ id: result.id, error: toErrorData(error) }] })
+      }
+    }
+  }
+}
+
+function toErrorData(error: unknown): ErrorData {
+  if (error instanceof Error)
+    return { name: error.name, message: error.message }
+  return { name: 'Error', message: String(error) }
+}
+
+function toError({ name, message }: ErrorData): Error {
+  const error = new Error(message)
+  error.name = name
+  return error
+}
@@ -1,8 +1,85 @@
 export {
   ByteLengthAware,
+  EvictionCallback,
+  EvictionReason,
+  FetchOptions,
+  Loader,
+  Lookup,
+  LookupState,
   LRUMap,
+  LRUEvents,
+  LRUOptions,
   LRUSizedMap,
+  LRUSizedOptions,
   MapEntry,
+  SetManyOptions,
+  SetOptions,
 } from './LRUMap'
 
 export { LRUSizedArray } from './LRUArray'
+
+export {
+  binaryLengthOf,
+  byteLengthOf,
+  estimateSizeOf,
+  keyByteLengthOf,
+  SizeCalculator,
+} from './Sizing'
+
+export { StringEncoding, stringByteLength } from './Encoding'
+
+export { KeyEquals, KeyHash } from './KeyIndex'
+
+export {
+  EvictionPolicy,
+  PolicyContext,
+  PolicyFactory,
+  PolicyName,
+  PolicyNode,
+} from './EvictionPolicy'
+
+export { KeyScalar, Nullable } from './Types'
+
+export { LRUStats } from './Stats'
+
+export {
+  bufferSafeSerializer,
+  identitySerializer,
+  LoadOptions,
+  LRUSnapshot,
+  SnapshotEntry,
+  SNAPSHOT_VERSION,
+  ValueSerializer,
+} from './Snapshot'
+
+export { FilePersistence, FilePersistenceOptions } from './FilePersistence'
+
+export {
+  MemoryPressureController,
+  MemoryPressureOptions,
+  MemoryProbe,
+  MemorySample,
+  RegistrationOptions,
+} from './MemoryPressure'
+
+export { PartitionedLRU, PartitionedLRUOptions, PartitionLimits } from './PartitionedLRU'
+
+export { MemoryStore, SecondaryStore, StoredValue } from './SecondaryStore'
+
+export { DirectoryStore, DirectoryStoreOptions } from './DirectoryStore'
+
+export { TieredCache, TieredCacheOptions } from './TieredCache'
+
+export { CacheClient, CacheClientOptions, CacheCoordinator } from './WorkerCache'
+
+export { SharedArenaMap, SharedArenaOptions } from './SharedArenaMap'
+
+export {
+  ChangeEvent,
+  ChangeStream,
+  ChangeStreamOptions,
+  ChangeTransport,
+  EmitterTransport,
+  MessageChannelLike,
+  MessageTransport,
+} from './ChangeStream'
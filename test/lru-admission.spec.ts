@@ -0,0 +1,144 @@
+import { FrequencySketch, hashOf } from '../src/FrequencySketch'
+import { EvictionReason, LRUMap, LRUSizedMap } from '../src/LRUMap'
+import { hitRate, scanTrace, skewedTrace } from './traces'
+
+describe('Check the frequency sketch', () => {
+
+  it('hashes strings by value and objects by identity', () => {
+    expect(hashOf('abc')).toBe(hashOf('abc'))
+    expect(hashOf('abc')).not.toBe(hashOf('abd'))
+    expect(hashOf(12)).toBe(hashOf(12))
+    const object = {}
+    expect(hashOf(object)).toBe(hashOf(object))
+    expect(hashOf(object)).not.toBe(hashOf({}))
+    const symbol = Symbol('a')
+    expect(hashOf(symbol)).toBe(hashOf(symbol))
+    expect(hashOf(symbol)).not.toBe(hashOf(Symbol('a')))
+  })
+
+  it('counts keys after the doorkeeper has seen them once', () => {
+    const sketch = new FrequencySketch<string>(64)
+    expect(sketch.frequency('a')).toBe(0)
+    sketch.increment('a')
+    expect(sketch.frequency('a')).toBe(1)
+    sketch.increment('a')
+    sketch.increment('a')
+    expect(sketch.frequency('a')).toBe(3)
+    for (let i = 0; i < 30; i++)
+      sketch.increment('a')
+    expect(sketch.frequency('a')).toBe(16)
+    expect(sketch.frequency('b')).toBe(0)
+  })
+
+  it('halves frequencies as it ages', () => {
+    const sketch = new FrequencySketch<string>(64)
+    for (let i = 0; i < 9; i++)
+      sketch.increment('a')
+    sketch.age()
+    expect(sketch.frequency('a')).toBe(0)
+    sketch.increment('a')
+    expect(sketch.frequency('a')).toBe(1 + 4)
+  })
+
+  it('ages after a sample of ten times its width', () => {
+    const sketch = new FrequencySketch<string>(16)
+    for (let i = 0; i < 8; i++)
+      sketch.increment('hot')
+    for (let i = 0; i < 152; i++)
+      sketch.increment(`cold-${i}`)
+    expect(sketch.frequency('hot')).toBeLessThan(8)
+  })
+
+  it('hashes keys by their keyHash', () => {
+    const sketch = new FrequencySketch<[string, number]>(64, key => key.join(':'))
+    sketch.increment(['a', 1])
+    sketch.increment(['a', 1])
+    expect(sketch.frequency(['a', 1])).toBe(2)
+  })
+})
+
+describe('Check TinyLFU admission of LRU maps', () => {
+
+  it('rejects new keys seen less often than the entry they would evict', () => {
+    const evicted: [string, EvictionReason][] = []
+    const map = new LRUMap<string, string>(3, [], {
+      admission: 'tinylfu',
+      stats: true,
+      onEvict: (key, value, reason) => evicted.push([key, reason]),
+    })
+    for (const key of ['a', 'b', 'c']) {
+      map.set(key, key)
+      map.get(key)
+      map.get(key)
+    }
+    map.set('x', 'X')
+    expect(map.has('x')).toBe(false)
+    expect([...map.keys()]).toEqual(['c', 'b', 'a'])
+    expect(evicted).toEqual([['x', 'reject']])
+    expect(map.stats().evictions.reject).toBe(1)
+  })
+
+  it('admits new keys once seen more often than the victim', () => {
+    const map = new LRUMap<string, string>(3, [], { admission: 'tinylfu' })
+    for (const key of ['a', 'b', 'c'])
+      map.set(key, key)
+    map.get('x')
+    map.get('x')
+    map.set('x', 'X')
+    expect(map.has('x')).toBe(true)
+    expect(map.has('a')).toBe(false)
+  })
+
+  it('admits every key while the map has room', () => {
+    const map = new LRUMap<string, string>(3, [['a', 'A'], ['b', 'B'], ['c', 'C']], { admission: 'tinylfu' })
+    expect(map.size).toBe(3)
+    map.set('a', 'AA')
+    expect(map.get('a')).toBe('AA')
+  })
+
+  it('does not evict to accommodate a key that would be rejected', () => {
+    const map = new LRUSizedMap<string, string>(6, [], { admission: 'tinylfu' })
+    for (const key of ['a', 'b', 'c']) {
+      map.set(key, 'xx')
+      map.get(key)
+    }
+    map.accommodate(2, 'd')
+    expect(map.used).toBe(6)
+    map.set('d', 'yy')
+    expect(map.has('d')).toBe(false)
+    map.get('d')
+    map.get('d')
+    map.accommodate(2, 'd')
+    expect(map.used).toBe(4)
+  })
+
+  it('compares against the victim of the eviction policy', () => {
+    const map = new LRUMap<string, string>(2, [], { admission: 'tinylfu', policy: 'lfu' })
+    map.set('a', 'A')
+    map.set('b', 'B')
+    map.get('a')
+    map.get('a')
+    map.get('x')
+    map.set('x', 'X')
+    expect([...map.keys()].sort()).toEqual(['a', 'x'])
+  })
+
+  it('rejects invalid settings', () => {
+    expect(() => new LRUMap(5, [], { admission: 'lfu' as 'tinylfu' })).toThrowError(/^Invalid admission 'lfu'/)
+    expect(() => new LRUMap(5, [], { expectedEntries: 0 })).toThrowError(/^Invalid expectedEntries \(0\)/)
+  })
+
+  it('keeps the hot set through scans', () => {
+    const trace = scanTrace(40000)
+    const lru = hitRate(new LRUMap<string, string>(100), trace)
+    const tinyLFU = hitRate(new LRUMap<string, string>(100, [], { admission: 'tinylfu' }), trace)
+    expect(tinyLFU).toBeGreaterThan(lru * 1.1)
+  })
+
+  it('favors popular keys with the w-tinylfu policy', () => {
+    const trace = skewedTrace(40000)
+    const lru = hitRate(new LRUMap<string, string>(100), trace)
+    const windowed = hitRate(new LRUMap<string, string>(100, [], { policy: 'w-tinylfu' }), trace)
+    expect(windowed).toBeGreaterThan(lru)
+  })
+})
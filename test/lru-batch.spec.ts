@@ -0,0 +1,88 @@
+import { LRUMap, LRUSizedMap } from '../src/LRUMap'
+
+describe('Check batch operations', () => {
+
+  it('gets and peeks many keys in order', () => {
+    const map = new LRUMap<string, number>(5, [['a', 1], ['b', 2], ['c', 3]])
+    expect(map.peekMany(['b', 'a', 'z'])).toEqual([2, 1, null])
+    expect([...map.keys()]).toEqual(['c', 'b', 'a'])
+    expect(map.getMany(['b', 'z', 'a'])).toEqual([2, null, 1])
+    expect([...map.keys()]).toEqual(['a', 'b', 'c'])
+  })
+
+  it('sets many entries with a single eviction pass', () => {
+    const evicted: string[] = []
+    const map = new LRUMap<string, number>(4, [['a', 1], ['b', 2], ['c', 3]], { onEvict: (key, value, reason) => evicted.push(`${key}:${reason}`) })
+    const evictOverflow = jest.spyOn(map as unknown as { evictOverflow: () => void }, 'evictOverflow')
+    expect(map.setMany([['d', 4], ['b', 5], ['e', 6]])).toEqual([true, true, true])
+    expect(evictOverflow).toHaveBeenCalledTimes(1)
+    expect([...map.entries()]).toEqual([['e', 6], ['b', 5], ['d', 4], ['c', 3]])
+    expect(evicted).toEqual(['b:set', 'a:evict'])
+  })
+
+  it('evicts the oldest entries of a batch larger than the map', () => {
+    const map = new LRUMap<string, number>(2, [['a', 1]])
+    expect(map.setMany([['b', 2], ['c', 3], ['d', 4]])).toEqual([false, true, true])
+    expect([...map.keys()]).toEqual(['d', 'c'])
+  })
+
+  it('reports the last value of keys set twice', () => {
+    const map = new LRUMap<string, number>(4)
+    expect(map.setMany([['a', 1], ['b', 2], ['a', 3]])).toEqual([false, true, true])
+    expect(map.get('a')).toBe(3)
+  })
+
+  it('applies the options to every entry', () => {
+    let now = 0
+    const map = new LRUMap<string, number>(4, [], { clock: () => now })
+    map.setMany([['a', 1], ['b', 2]], { ttl: 100, tags: ['x'] })
+    now = 100
+    expect(map.has('a')).toBe(false)
+    expect(() => map.setMany([['c', 3]], { ttl: -1 })).toThrow('Invalid ttl (-1)')
+    expect(map.has('c')).toBe(false)
+  })
+
+  it('accommodates the batch before setting it', () => {
+    const evicted: string[] = []
+    const map = new LRUSizedMap<string, string>(10, [['a', 'aaaa'], ['b', 'bbbb']], { onEvict: key => evicted.push(key) })
+    map.setMany([['c', 'cc'], ['d', 'ddd']], { accommodate: true })
+    expect(evicted).toEqual(['a'])
+    expect(map.used).toBe(9)
+    const items = new LRUMap<string, number>(3, [['a', 1], ['b', 2], ['c', 3]])
+    items.setMany([['c', 4], ['d', 5]], { accommodate: true })
+    expect([...items.keys()]).toEqual(['d', 'c', 'b'])
+  })
+
+  it('skips oversized values when accommodating', () => {
+    const map = new LRUSizedMap<string, string>(10, [['a', 'aaaa']], { maxEntrySize: 5 })
+    expect(map.setMany([['b', 'bbbbbbb'], ['c', 'ccc']], { accommodate: true })).toEqual([false, true])
+    expect([...map.keys()]).toEqual(['c', 'a'])
+    expect(() => map.setMany([['d', 1 as unknown as string]], { accommodate: true })).toThrow()
+    expect(map.size).toBe(2)
+  })
+
+  it('keeps the bytes used through batches', () => {
+    const map = new LRUSizedMap<string, string>(8)
+    map.setMany([['a', 'aaa'], ['b', 'bbb'], ['c', 'ccc']])
+    expect([...map.keys()]).toEqual(['c', 'b'])
+    expect(map.used).toBe(6)
+    expect(map.removeMany(['b', 'z'])).toEqual(['bbb', null])
+    expect(map.used).toBe(3)
+  })
+
+  it('removes many keys, then passes them to onEvict', () => {
+    const calls: [string, number][] = []
+    const map: LRUMap<string, number> = new LRUMap<string, number>(4, [['a', 1], ['b', 2], ['c', 3]], {
+      onEvict: key => calls.push([key, map.size]),
+    })
+    expect(map.removeMany(['a', 'c', 'a'])).toEqual([1, 3, null])
+    expect(calls).toEqual([['a', 1], ['c', 1]])
+  })
+
+  it('evicts once a throwing batch stops', () => {
+    const map = new LRUSizedMap<string, string>(4)
+    expect(() => map.setMany([['a', 'aa'], ['b', 'bb'], ['c', 'cc'], ['d', 1 as unknown as string]])).toThrow()
+    expect([...map.keys()]).toEqual(['c', 'b'])
+    expect(map.used).toBe(4)
+  })
+})
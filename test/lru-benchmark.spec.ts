@@ -0,0 +1,83 @@
+import { performance } from 'perf_hooks'
+import { LRUMap, LRUSizedMap } from '../src/LRUMap'
+
+const SMALL = 1_000
+const LARGE = 100_000
+const OPERATIONS = 20_000
+
+// A linear-time operation would be ~100x slower at LARGE than at SMALL,
+// so this leaves plenty of headroom for cache effects and GC noise. The
+// floor keeps sub-millisecond timings of the small map from skewing the ratio
+const MAX_SLOWDOWN = 20
+const MIN_BASELINE_MS = 5
+const RUNS = 3
+
+type Operation = (map: LRUMap<string, string> | LRUSizedMap<string, string>, key: string) => void
+
+function createMap(sized: boolean, count: number) {
+  const map = sized
+    ? new LRUSizedMap<string, string>(count)
+    : new LRUMap<string, string>(count)
+  for (let i = 0; i < count; i++)
+    map.set(i.toString(), 'x')
+  return map
+}
+
+function measure(sized: boolean, count: number, operation: Operation): number {
+  const map = createMap(sized, count)
+  const keys = []
+  for (let i = 0; i < OPERATIONS; i++)
+    keys.push(Math.floor(Math.random() * count).toString())
+  // Warm up so the JIT has settled before timing
+  for (let i = 0; i < 1000; i++)
+    operation(map, keys[i])
+  const start = performance.now()
+  for (const key of keys)
+    operation(map, key)
+  return performance.now() - start
+}
+
+function fastest(sized: boolean, count: number, operation: Operation): number {
+  let best = Infinity
+  for (let i = 0; i < RUNS; i++)
+    best = Math.min(best, measure(sized, count, operation))
+  return best
+}
+
+function expectConstantTime(sized: boolean, operation: Operation) {
+  const small = fastest(sized, SMALL, operation)
+  const large = fastest(sized, LARGE, operation)
+  expect(large / Math.max(small, MIN_BASELINE_MS)).toBeLessThan(MAX_SLOWDOWN)
+}
+
+const operations: [string, Operation][] = [
+  ['get', (map, key) => map.get(key)],
+  ['peek', (map, key) => map.peek(key)],
+  ['set (overwrite)', (map, key) => map.set(key, 'y')],
+  ['set (insert and evict)', (map, key) => map.set(`new-${key}`, 'x')],
+  ['remove', (map, key) => map.remove(key)],
+  ['head', map => map.head],
+  ['tail', map => map.tail],
+]
+
+describe('Benchmark LRU operations at 100k entries', () => {
+
+  jest.setTimeout(30_000)
+
+  for (const [name, operation] of operations) {
+    it(`performs ${name} in constant time on LRUMap`, () => {
+      expectConstantTime(false, operation)
+    })
+
+    it(`performs ${name} in constant time on LRUSizedMap`, () => {
+      expectConstantTime(true, operation)
+    })
+  }
+
+  it('populates 100k entries quickly', () => {
+    const start = performance.now()
+    const map = createMap(false, LARGE)
+    expect(map.size).toBe(LARGE)
+    expect(performance.now() - start).toBeLessThan(5_000)
+  })
+})
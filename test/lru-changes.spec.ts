@@ -0,0 +1,192 @@
+import { BroadcastChannel, MessageChannel } from 'worker_threads'
+import { ChangeEvent, ChangeStream, EmitterTransport, MessageTransport } from '../src/ChangeStream'
+import { LRUMap } from '../src/LRUMap'
+
+describe('Check change streams', () => {
+
+  it('streams the mutations of a map in order', () => {
+    const map = new LRUMap<string, number>(2)
+    const stream = new ChangeStream(map, { origin: 'a' })
+    const events: ChangeEvent<string, number>[] = []
+    stream.subscribe(event => events.push(event))
+    map.set('x', 1)
+    map.set('x', 2)
+    map.set('y', 3)
+    map.set('z', 4)
+    map.delete('y')
+    map.clear()
+    expect(events.map(event => [event.seq, event.type, 'key' in event ? event.key : undefined])).toEqual([
+      [1, 'set', 'x'],
+      [2, 'set', 'x'],
+      [3, 'set', 'y'],
+      [4, 'set', 'z'],
+      [5, 'evict', 'x'],
+      [6, 'remove', 'y'],
+      [7, 'clear', undefined],
+    ])
+    expect(events.every(event => event.origin === 'a')).toBe(true)
+  })
+
+  it('publishes a rejected set as a removal', () => {
+    const map = new LRUMap<string, number>(2, [], { admission: 'tinylfu' })
+    const stream = new ChangeStream(map)
+    const events: ChangeEvent<string, number>[] = []
+    stream.subscribe(event => events.push(event))
+    map.set('x', 1)
+    map.set('x', 1)
+    map.set('y', 2)
+    map.set('z', 3)
+    expect(map.has('z')).toBe(false)
+    expect(events[events.length - 1]).toMatchObject({ type: 'remove', key: 'z' })
+  })
+
+  it('replicates changes over an emitter without loops', () => {
+    const transport = new EmitterTransport<string, number>()
+    const a = new LRUMap<string, number>(10)
+    const b = new LRUMap<string, number>(10)
+    const streams = [new ChangeStream(a), new ChangeStream(b)]
+    const published = jest.fn()
+    for (const stream of streams) {
+      stream.pipe(transport)
+      stream.subscribe(published)
+    }
+    a.set('x', 1)
+    b.set('y', 2)
+    expect([...a.entries()]).toEqual([['y', 2], ['x', 1]])
+    expect([...b.entries()]).toEqual([['y', 2], ['x', 1]])
+    b.delete('x')
+    expect(a.has('x')).toBe(false)
+    a.clear()
+    expect(b.size).toBe(0)
+    expect(published).toHaveBeenCalledTimes(4)
+  })
+
+  it('keeps the remaining lifetime of remote values', () => {
+    let now = 1000
+    const clock = () => now
+    const a = new LRUMap<string, number>(10, [], { clock })
+    const b = new LRUMap<string, number>(10, [], { clock })
+    const transport = new EmitterTransport<string, number>()
+    new ChangeStream(a, { clock }).pipe(transport)
+    const replica = new ChangeStream(b, { clock })
+    replica.pipe(transport)
+    a.set('x', 1, { ttl: 100, staleAfter: 50 })
+    now += 60
+    expect(b.lookup('x').state).toBe('stale')
+    now += 40
+    expect(b.has('x')).toBe(false)
+    expect(replica.applyRemote({ type: 'set', origin: 'c', epoch: 'c', seq: 1, key: 'y', value: 2, expiresAt: now, staleAt: 0 })).toBe(true)
+    expect(b.has('y')).toBe(false)
+  })
+
+  it('replicates the tags of set values', () => {
+    const transport = new EmitterTransport<string, number>()
+    const a = new LRUMap<string, number>(10)
+    const b = new LRUMap<string, number>(10)
+    const events: ChangeEvent<string, number>[] = []
+    const stream = new ChangeStream(a)
+    stream.pipe(transport)
+    stream.subscribe(event => events.push(event))
+    new ChangeStream(b).pipe(transport)
+    a.set('x', 1, { tags: ['odd'] })
+    a.set('y', 2)
+    expect(events[0]).toMatchObject({ type: 'set', key: 'x', tags: ['odd'] })
+    expect(b.invalidateTag('odd')).toBe(1)
+    expect([...b.keys()]).toEqual(['y'])
+  })
+
+  it('ignores its own, duplicate and old events', () => {
+    const map = new LRUMap<string, number>(10)
+    const stream = new ChangeStream(map, { origin: 'a' })
+    expect(stream.applyRemote({ type: 'set', origin: 'a', epoch: 'a', seq: 1, key: 'x', value: 1, expiresAt: 0, staleAt: 0 })).toBe(false)
+    expect(stream.applyRemote({ type: 'set', origin: 'b', epoch: 'b', seq: 2, key: 'x', value: 2, expiresAt: 0, staleAt: 0 })).toBe(true)
+    expect(stream.applyRemote({ type: 'set', origin: 'b', epoch: 'b', seq: 2, key: 'x', value: 3, expiresAt: 0, staleAt: 0 })).toBe(false)
+    expect(stream.applyRemote({ type: 'remove', origin: 'b', epoch: 'b', seq: 1, key: 'x' })).toBe(false)
+    expect(map.get('x')).toBe(2)
+  })
+
+  it('applies the events of a replica created again with the same origin', () => {
+    const transport = new EmitterTransport<string, number>()
+    const b = new LRUMap<string, number>(10)
+    new ChangeStream(b, { origin: 'b' }).pipe(transport)
+    const first = new ChangeStream(new LRUMap<string, number>(10), { origin: 'a' })
+    const disconnect = first.pipe(transport)
+    const late: ChangeEvent<string, number>[] = []
+    first.subscribe(event => late.push(event))
+    for (let i = 0; i < 5; i++)
+      first.map.set('x', i)
+    first.map.set('y', 1)
+    disconnect()
+    first.close()
+    const again = new ChangeStream(new LRUMap<string, number>(10), { origin: 'a' })
+    again.pipe(transport)
+    again.map.set('x', 99)
+    again.map.set('y', 2)
+    again.map.delete('y')
+    expect(b.get('x')).toBe(99)
+    expect(b.has('y')).toBe(false)
+    transport.publish(late[late.length - 1])
+    expect(b.has('y')).toBe(false)
+  })
+
+  it('applies remote evictions only when asked to', () => {
+    const map = new LRUMap<string, number>(10, [['x', 1], ['y', 2]])
+    const event = (seq: number, key: string): ChangeEvent<string, number> => ({ type: 'evict', origin: 'b', epoch: 'b', seq, key, reason: 'evict' })
+    new ChangeStream(map).applyRemote(event(1, 'x'))
+    expect(map.has('x')).toBe(true)
+    new ChangeStream(map, { applyEvictions: true }).applyRemote(event(2, 'y'))
+    expect(map.has('y')).toBe(false)
+  })
+
+  it('does not publish the evictions remote changes cause', () => {
+    const map = new LRUMap<string, number>(2, [['x', 1], ['y', 2]])
+    const stream = new ChangeStream(map)
+    const published = jest.fn()
+    stream.subscribe(published)
+    stream.applyRemote({ type: 'set', origin: 'b', epoch: 'b', seq: 1, key: 'z', value: 3, expiresAt: 0, staleAt: 0 })
+    expect(map.has('x')).toBe(false)
+    expect(published).not.toHaveBeenCalled()
+    map.set('w', 4)
+    expect(published).toHaveBeenCalledTimes(2)
+  })
+
+  it('stops streaming once closed or unpiped', () => {
+    const transport = new EmitterTransport<string, number>()
+    const a = new LRUMap<string, number>(10)
+    const b = new LRUMap<string, number>(10)
+    const stream = new ChangeStream(a)
+    const unpipe = stream.pipe(transport)
+    new ChangeStream(b).pipe(transport)
+    unpipe()
+    a.set('x', 1)
+    b.set('y', 2)
+    expect(b.has('x')).toBe(false)
+    expect(a.has('y')).toBe(false)
+    stream.close()
+    const published = jest.fn()
+    stream.subscribe(published)
+    a.set('z', 3)
+    expect(published).not.toHaveBeenCalled()
+    expect(transport.emitter.listenerCount('change')).toBe(1)
+  })
+
+  it('replicates changes over message ports and broadcast channels', async () => {
+    const { port1, port2 } = new MessageChannel()
+    const channels = [new BroadcastChannel('lru-changes'), new BroadcastChannel('lru-changes')]
+    const a = new LRUMap<string, number[]>(10)
+    const b = new LRUMap<string, number[]>(10)
+    const c = new LRUMap<string, number[]>(10)
+    const source = new ChangeStream(a)
+    source.pipe(new MessageTransport(port1))
+    source.pipe(new MessageTransport(channels[0]))
+    new ChangeStream(b).pipe(new MessageTransport(port2))
+    new ChangeStream(c).pipe(new MessageTransport(channels[1]))
+    a.set('x', [1, 2])
+    await new Promise(resolve => setTimeout(resolve, 50))
+    expect(b.get('x')).toEqual([1, 2])
+    expect(c.get('x')).toEqual([1, 2])
+    port1.close()
+    for (const channel of channels)
+      channel.close()
+  })
+})
@@ -0,0 +1,210 @@
+import { LRUMap, LRUSizedMap } from '../src/LRUMap'
+
+const factories: [string, (entries?: [string, string][]) => Map<string, string>][] = [
+  ['LRUMap', entries => new LRUMap<string, string>(100, entries)],
+  ['LRUSizedMap', entries => new LRUSizedMap<string, string>(1000, entries)],
+  ['native Map', entries => new Map<string, string>(entries)],
+]
+
+function sorted<T>(items: Iterable<T>): T[] {
+  return [...items].sort()
+}
+
+describe.each(factories)('Check Map conformance of %s', (name, create) => {
+
+  let map: Map<string, string>
+
+  beforeEach(() => {
+    map = create([['a', 'A'], ['b', 'B'], ['c', 'C']])
+  })
+
+  it('is assignable to Map', () => {
+    const sizeOf = (m: Map<string, string>) => m.size
+    expect(sizeOf(map)).toBe(3)
+  })
+
+  it('has a string tag', () => {
+    expect(Object.prototype.toString.call(map)).toBe(`[object ${name === 'native Map' ? 'Map' : name}]`)
+  })
+
+  it('returns the map from set so calls can be chained', () => {
+    expect(map.set('d', 'D').set('e', 'E')).toBe(map)
+    expect(map.size).toBe(5)
+  })
+
+  it('gets and checks entries', () => {
+    expect(map.get('a')).toBe('A')
+    expect(map.has('a')).toBe(true)
+    expect(map.has('z')).toBe(false)
+  })
+
+  it('overwrites an existing key without changing the size', () => {
+    map.set('a', 'AA')
+    expect(map.get('a')).toBe('AA')
+    expect(map.size).toBe(3)
+  })
+
+  it('reports whether delete removed an entry', () => {
+    expect(map.delete('a')).toBe(true)
+    expect(map.delete('a')).toBe(false)
+    expect(map.delete('z')).toBe(false)
+    expect(map.size).toBe(2)
+  })
+
+  it('reports deletion of entries with falsy values', () => {
+    map.set('empty', '')
+    expect(map.delete('empty')).toBe(true)
+    expect(map.has('empty')).toBe(false)
+  })
+
+  it('clears all entries', () => {
+    expect(map.clear()).toBeUndefined()
+    expect(map.size).toBe(0)
+    expect([...map]).toEqual([])
+  })
+
+  it('iterates keys, values and entries consistently', () => {
+    const entries = [...map.entries()]
+    expect(sorted(entries.map(([k]) => k))).toEqual(['a', 'b', 'c'])
+    expect([...map.keys()]).toEqual(entries.map(([k]) => k))
+    expect([...map.values()]).toEqual(entries.map(([, v]) => v))
+    expect([...map]).toEqual(entries)
+    expect(new Map(map)).toEqual(new Map(entries))
+  })
+
+  it('calls forEach with value, key and the map', () => {
+    const calls: [string, string, Map<string, string>][] = []
+    map.forEach((value, key, m) => calls.push([value, key, m]))
+    expect(sorted(calls.map(([v, k]) => v + k))).toEqual(['Aa', 'Bb', 'Cc'])
+    expect(calls.every(([, , m]) => m === map)).toBe(true)
+  })
+
+  it('calls forEach with thisArg as this', () => {
+    const context = { seen: 0 }
+    map.forEach(function (this: typeof context) {
+      this.seen++
+    }, context)
+    expect(context.seen).toBe(3)
+    const thises: unknown[] = []
+    map.forEach(function (this: unknown) {
+      thises.push(this)
+    })
+    expect(thises).toEqual([undefined, undefined, undefined])
+  })
+
+  it('does not visit entries deleted during iteration', () => {
+    const visited: string[] = []
+    map.forEach((value, key) => {
+      visited.push(key)
+      for (const other of ['a', 'b', 'c'])
+        if (other !== key)
+          map.delete(other)
+    })
+    expect(visited).toHaveLength(1)
+    expect(map.size).toBe(1)
+  })
+
+  it('continues iterating when the current entry is deleted', () => {
+    const visited: string[] = []
+    for (const [key] of map) {
+      visited.push(key)
+      map.delete(key)
+    }
+    expect(sorted(visited)).toEqual(['a', 'b', 'c'])
+    expect(map.size).toBe(0)
+  })
+
+  it('visits each entry once when entries are read during iteration', () => {
+    const visited: string[] = []
+    map.forEach((value, key) => {
+      visited.push(key)
+      map.get(key === 'a' ? 'b' : 'a')
+    })
+    expect(sorted(visited)).toEqual(['a', 'b', 'c'])
+    visited.length = 0
+    for (const [key] of map) {
+      visited.push(key)
+      map.get(key === 'a' ? 'b' : 'a')
+      if (visited.length > 10)
+        break
+    }
+    expect(sorted(visited)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('stops iterating when cleared', () => {
+    const visited: string[] = []
+    for (const [key] of map) {
+      visited.push(key)
+      map.clear()
+    }
+    expect(visited).toHaveLength(1)
+  })
+})
+
+describe('Check Map conformance of LRU specifics', () => {
+
+  it('lists entries from newest to oldest', () => {
+    const map = new LRUMap<string, string>(5, [['a', 'A'], ['b', 'B'], ['c', 'C']])
+    map.get('a')
+    expect([...map.keys()]).toEqual(['a', 'c', 'b'])
+  })
+
+  it('does not visit entries set during iteration', () => {
+    const map = new LRUMap<string, string>(5, [['a', 'A'], ['b', 'B']])
+    const visited: string[] = []
+    map.forEach((value, key) => {
+      visited.push(key)
+      map.set(key + key, value)
+    })
+    expect(visited).toEqual(['b', 'a'])
+    expect(map.size).toBe(4)
+  })
+
+  it('returns null from get and peek for missing keys', () => {
+    const map = new LRUMap<string, string>(5)
+    expect(map.get('a')).toBeNull()
+    expect(map.peek('a')).toBeNull()
+  })
+})
+
+describe('Check the readonly view of LRU maps', () => {
+
+  it('reads without registering recent use', () => {
+    const map = new LRUMap<string, string>(3, [['a', 'A'], ['b', 'B'], ['c', 'C']])
+    const view = map.asReadonly()
+    expect(view.get('a')).toBe('A')
+    expect(view.has('a')).toBe(true)
+    expect(view.size).toBe(3)
+    expect([...view.keys()]).toEqual(['c', 'b', 'a'])
+    map.set('d', 'D')
+    expect(view.has('a')).toBe(false)
+    expect(view.size).toBe(3)
+  })
+
+  it('does not count reads as hits or misses', () => {
+    const map = new LRUMap<string, string>(3, [['a', 'A']], { stats: true })
+    const view = map.asReadonly()
+    view.get('a')
+    view.get('z')
+    expect(map.stats().hits).toBe(0)
+    expect(map.stats().misses).toBe(0)
+  })
+
+  it('iterates like the map it views', () => {
+    const map = new LRUSizedMap<string, string>(100, [['a', 'A'], ['b', 'B']])
+    const view = map.asReadonly()
+    expect([...view]).toEqual([...map])
+    expect([...view.entries()]).toEqual([...map.entries()])
+    expect([...view.values()]).toEqual(['B', 'A'])
+    const calls: unknown[][] = []
+    view.forEach((value, key, m) => calls.push([value, key, m]))
+    expect(calls).toEqual([['B', 'b', view], ['A', 'a', view]])
+  })
+
+  it('exposes no mutating methods', () => {
+    const view = new LRUMap<string, string>(3).asReadonly() as any
+    expect(view.set).toBeUndefined()
+    expect(view.delete).toBeUndefined()
+    expect(view.clear).toBeUndefined()
+  })
+})
@@ -0,0 +1,112 @@
+import { EvictionReason, LRUMap, LRUSizedMap } from '../src/LRUMap'
+
+describe('Check eviction callbacks of LRU maps', () => {
+
+  let evicted: [string, string, EvictionReason][]
+  const onEvict = (key: string, value: string, reason: EvictionReason) => {
+    evicted.push([key, value, reason])
+  }
+
+  beforeEach(() => {
+    evicted = []
+  })
+
+  it('reports entries evicted over capacity', () => {
+    const map = new LRUMap<string, string>(2, [['a', 'A'], ['b', 'B']], { onEvict })
+    map.set('c', 'C')
+    expect(evicted).toEqual([['a', 'A', 'evict']])
+  })
+
+  it('reports deleted, overwritten and cleared entries', () => {
+    const map = new LRUMap<string, string>(5, [['a', 'A'], ['b', 'B'], ['c', 'C']], { onEvict })
+    map.delete('a')
+    map.set('b', 'BB')
+    map.set('b', 'BB')
+    map.remove('z')
+    map.clear()
+    expect(evicted).toEqual([
+      ['a', 'A', 'delete'],
+      ['b', 'B', 'set'],
+      ['b', 'BB', 'clear'],
+      ['c', 'C', 'clear'],
+    ])
+  })
+
+  it('reports expired entries', () => {
+    let now = 0
+    const map = new LRUMap<string, string>(5, [['a', 'A'], ['b', 'B']], { ttl: 10, clock: () => now, onEvict })
+    now = 10
+    map.get('a')
+    map.purgeStale()
+    expect(evicted).toEqual([['a', 'A', 'expire'], ['b', 'B', 'expire']])
+  })
+
+  it('invokes the callback after the map state is consistent', () => {
+    let map: LRUSizedMap<string, string>
+    const seen = []
+    map = new LRUSizedMap<string, string>(4, [], {
+      onEvict: key => seen.push([key, map.has(key), map.used, map.size]),
+    })
+    map.set('a', 'AA')
+    map.set('b', 'BB')
+    map.set('c', 'CC')
+    expect(seen).toEqual([['a', false, 4, 2]])
+  })
+
+  it('reports entries dropped by accommodate', () => {
+    const map = new LRUSizedMap<string, string>(6, [['a', 'AA'], ['b', 'BB'], ['c', 'CC']], { onEvict })
+    map.accommodate(3)
+    expect(evicted).toEqual([['a', 'AA', 'evict'], ['b', 'BB', 'evict']])
+    expect(map.used).toBe(2)
+  })
+
+  it('survives exceptions thrown by the callback', () => {
+    const keys = []
+    const map = new LRUSizedMap<string, string>(4, [['a', 'AA'], ['b', 'BB']], {
+      onEvict: key => {
+        keys.push(key)
+        throw new Error(`Cannot dispose ${key}`)
+      },
+    })
+    expect(() => map.set('c', 'CCCC')).toThrowError('Cannot dispose a')
+    expect(keys).toEqual(['a', 'b'])
+    expect(map.used).toBe(4)
+    expect(map.size).toBe(1)
+    expect([...map.keys()]).toEqual(['c'])
+    expect(() => map.remove('c')).toThrowError('Cannot dispose c')
+    expect(map.used).toBe(0)
+    expect(map.size).toBe(0)
+    expect(map.head).toBeUndefined()
+  })
+
+  it('notifies every evict listener when the callback or a listener throws', () => {
+    const heard: string[] = []
+    const map = new LRUMap<string, string>(2, [['a', 'A'], ['b', 'B']], {
+      onEvict: key => {
+        throw new Error(`Cannot dispose ${key}`)
+      },
+    })
+    map.on('evict', key => {
+      heard.push(`first:${key}`)
+      throw new Error(`Cannot hear ${key}`)
+    })
+    map.on('evict', key => heard.push(`second:${key}`))
+    expect(() => map.set('c', 'C')).toThrowError('Cannot dispose a')
+    expect(() => map.delete('b')).toThrowError('Cannot dispose b')
+    expect(heard).toEqual(['first:a', 'second:a', 'first:b', 'second:b'])
+  })
+
+  it('flushes disposals when a set or clear listener throws', () => {
+    const map = new LRUMap<string, string>(2, [['a', 'A'], ['b', 'B']], { onEvict })
+    map.on('set', () => {
+      throw new Error('Cannot hear set')
+    })
+    map.on('clear', () => {
+      throw new Error('Cannot hear clear')
+    })
+    expect(() => map.set('c', 'C')).toThrowError('Cannot hear set')
+    expect(evicted).toEqual([['a', 'A', 'evict']])
+    expect(() => map.clear()).toThrowError('Cannot hear clear')
+    expect(evicted).toEqual([['a', 'A', 'evict'], ['c', 'C', 'clear'], ['b', 'B', 'clear']])
+  })
+})
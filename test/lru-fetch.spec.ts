@@ -0,0 +1,161 @@
+import { LRUMap, LRUSizedMap } from '../src/LRUMap'
+
+function deferred<T>() {
+  let resolve: (value: T) => void
+  let reject: (error: unknown) => void
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+describe('Check async loading of LRU maps', () => {
+
+  it('returns cached values without loading', async () => {
+    const loader = jest.fn()
+    const map = new LRUMap<string, string>(5, [['a', 'A'], ['b', 'B']], { loader })
+    await expect(map.fetch('a')).resolves.toBe('A')
+    expect(loader).not.toHaveBeenCalled()
+    expect(map.head.key).toBe('a')
+  })
+
+  it('loads and caches missing values', async () => {
+    const map = new LRUMap<string, string>(5)
+    const loader = jest.fn(async (key: string) => key.toUpperCase())
+    await expect(map.fetch('a', loader)).resolves.toBe('A')
+    expect(map.peek('a')).toBe('A')
+    await expect(map.fetch('a', loader)).resolves.toBe('A')
+    expect(loader).toHaveBeenCalledTimes(1)
+  })
+
+  it('uses the default loader', async () => {
+    const map = new LRUMap<string, number>(5, [], { loader: key => key.length })
+    await expect(map.fetch('abc')).resolves.toBe(3)
+    await expect(new LRUMap<string, number>(5).fetch('abc')).rejects.toThrowError(/^No loader/)
+  })
+
+  it('coalesces concurrent loads of the same key', async () => {
+    const load = deferred<string>()
+    const loader = jest.fn(() => load.promise)
+    const map = new LRUMap<string, string>(5, [], { loader })
+    const fetches = [map.fetch('a'), map.fetch('a'), map.fetch('a')]
+    map.fetch('b')
+    await Promise.resolve()
+    expect(loader).toHaveBeenCalledTimes(2)
+    load.resolve('A')
+    await expect(Promise.all(fetches)).resolves.toEqual(['A', 'A', 'A'])
+  })
+
+  it('does not cache rejections by default', async () => {
+    const loader = jest.fn()
+      .mockRejectedValueOnce(new Error('Backend down'))
+      .mockResolvedValueOnce('A')
+    const map = new LRUMap<string, string>(5, [], { loader })
+    await expect(map.fetch('a')).rejects.toThrowError('Backend down')
+    expect(map.has('a')).toBe(false)
+    await expect(map.fetch('a')).resolves.toBe('A')
+  })
+
+  it('caches rejections when configured', async () => {
+    let now = 0
+    const loader = jest.fn()
+      .mockRejectedValueOnce(new Error('Backend down'))
+      .mockResolvedValueOnce('A')
+    const map = new LRUMap<string, string>(5, [], { loader, cacheRejections: 100, clock: () => now })
+    await expect(map.fetch('a')).rejects.toThrowError('Backend down')
+    now = 50
+    await expect(map.fetch('a')).rejects.toThrowError('Backend down')
+    expect(loader).toHaveBeenCalledTimes(1)
+    now = 100
+    await expect(map.fetch('a')).resolves.toBe('A')
+  })
+
+  it('forgets a cached rejection when the key is set', async () => {
+    const map = new LRUMap<string, string>(5, [], { loader: () => Promise.reject(new Error('Nope')), cacheRejections: 1000 })
+    await expect(map.fetch('a')).rejects.toThrowError('Nope')
+    map.set('a', 'A')
+    await expect(map.fetch('a')).resolves.toBe('A')
+  })
+
+  it('does not overwrite a value set while loading', async () => {
+    const load = deferred<string>()
+    const map = new LRUMap<string, string>(5, [], { loader: () => load.promise })
+    const fetching = map.fetch('a')
+    map.set('a', 'newer')
+    load.resolve('older')
+    await expect(fetching).resolves.toBe('older')
+    expect(map.peek('a')).toBe('newer')
+  })
+
+  it('applies a ttl to loaded values', async () => {
+    let now = 0
+    const map = new LRUMap<string, string>(5, [], { loader: key => key, clock: () => now })
+    await map.fetch('a', undefined, { ttl: 10 })
+    now = 10
+    expect(map.has('a')).toBe(false)
+  })
+
+  it('aborts a single caller without affecting others', async () => {
+    const load = deferred<string>()
+    let signal: AbortSignal
+    const map = new LRUMap<string, string>(5, [], {
+      loader: (key, context) => {
+        signal = context.signal
+        return load.promise
+      },
+    })
+    const controller = new AbortController()
+    const aborted = map.fetch('a', undefined, { signal: controller.signal })
+    const waiting = map.fetch('a')
+    controller.abort()
+    await expect(aborted).rejects.toHaveProperty('name', 'AbortError')
+    expect(signal.aborted).toBe(false)
+    load.resolve('A')
+    await expect(waiting).resolves.toBe('A')
+    expect(map.peek('a')).toBe('A')
+  })
+
+  it('aborts the load once every caller has aborted', async () => {
+    const load = deferred<string>()
+    let signal: AbortSignal
+    const map = new LRUMap<string, string>(5, [], {
+      loader: (key, context) => {
+        signal = context.signal
+        return load.promise
+      },
+    })
+    const first = new AbortController()
+    const second = new AbortController()
+    const fetches = [
+      map.fetch('a', undefined, { signal: first.signal }),
+      map.fetch('a', undefined, { signal: second.signal }),
+    ]
+    await Promise.resolve()
+    first.abort()
+    second.abort()
+    await expect(Promise.all(fetches)).rejects.toHaveProperty('name', 'AbortError')
+    expect(signal.aborted).toBe(true)
+    load.resolve('A')
+    await load.promise
+    expect(map.has('a')).toBe(false)
+  })
+
+  it('rejects immediately with an aborted signal', async () => {
+    const loader = jest.fn()
+    const map = new LRUMap<string, string>(5, [], { loader })
+    const controller = new AbortController()
+    controller.abort()
+    await expect(map.fetch('a', undefined, { signal: controller.signal })).rejects.toHaveProperty('name', 'AbortError')
+    expect(loader).not.toHaveBeenCalled()
+  })
+
+  it('accounts loaded bytes in a sized map', async () => {
+    const map = new LRUSizedMap<string, string>(8, [['a', 'aaaa']], { loader: key => key.repeat(6) })
+    await expect(map.fetch('b')).resolves.toBe('bbbbbb')
+    expect(map.used).toBe(6)
+    expect([...map.keys()]).toEqual(['b'])
+    await expect(map.fetch('c', () => ({}) as any)).rejects.toThrowError(/can only accept/)
+    expect(map.used).toBe(6)
+  })
+})
@@ -0,0 +1,98 @@
+import { LRUMap, LRUSizedMap } from '../src/LRUMap'
+
+type RouteKey = [tenant: string, path: string]
+
+describe('Check object and structural keys of LRU maps', () => {
+
+  it('matches object keys by identity by default', () => {
+    const a = { id: 1 }
+    const b = { id: 1 }
+    const map = new LRUMap<object, string>(5, [[a, 'A']])
+    expect(map.get(a)).toBe('A')
+    expect(map.get(b)).toBeNull()
+    map.set(b, 'B')
+    expect(map.size).toBe(2)
+    expect([...map.keys()]).toEqual([b, a])
+  })
+
+  it('matches tuple keys by their hash', () => {
+    const map = new LRUMap<RouteKey, string>(2, [], { keyHash: ([tenant, path]) => `${tenant}:${path}` })
+    map.set(['t1', '/a'], 'A')
+    expect(map.get(['t1', '/a'])).toBe('A')
+    expect(map.has(['t2', '/a'])).toBe(false)
+    map.set(['t1', '/a'], 'AA')
+    expect(map.size).toBe(1)
+    map.set(['t2', '/a'], 'B')
+    map.set(['t3', '/a'], 'C')
+    expect(map.has(['t1', '/a'])).toBe(false)
+    expect(map.delete(['t2', '/a'])).toBe(true)
+    expect([...map.entries()]).toEqual([[['t3', '/a'], 'C']])
+  })
+
+  it('compares keys with the same hash with keyEquals', () => {
+    const keyEquals = jest.fn((a: RouteKey, b: RouteKey) => a[0] === b[0] && a[1] === b[1])
+    const map = new LRUMap<RouteKey, string>(5, [], { keyHash: ([, path]) => path, keyEquals })
+    map.set(['t1', '/a'], 'A')
+    map.set(['t2', '/a'], 'B')
+    expect(map.size).toBe(2)
+    expect(map.get(['t1', '/a'])).toBe('A')
+    expect(map.get(['t2', '/a'])).toBe('B')
+    expect(keyEquals).toHaveBeenCalled()
+    map.set(['t1', '/a'], 'AA')
+    expect(map.size).toBe(2)
+    expect(map.delete(['t1', '/a'])).toBe(true)
+    expect(map.delete(['t1', '/a'])).toBe(false)
+    expect(map.get(['t2', '/a'])).toBe('B')
+    map.clear()
+    expect(map.size).toBe(0)
+  })
+
+  it('requires a keyHash with keyEquals', () => {
+    expect(() => new LRUMap<RouteKey, string>(5, [], { keyEquals: () => true })).toThrowError(/^Invalid keyEquals/)
+  })
+
+  it('coalesces fetches of structurally equal keys', async () => {
+    const loader = jest.fn(async ([tenant, path]: RouteKey) => tenant + path)
+    const map = new LRUMap<RouteKey, string>(5, [], { keyHash: key => key.join(':'), loader })
+    const [a, b] = await Promise.all([map.fetch(['t1', '/a']), map.fetch(['t1', '/a'])])
+    expect(a).toBe('t1/a')
+    expect(b).toBe('t1/a')
+    expect(loader).toHaveBeenCalledTimes(1)
+  })
+
+  it('sizes object keys as references', () => {
+    const map = new LRUSizedMap<object, string>(100, [], { countKeys: true })
+    map.set({ id: 1 }, 'abc')
+    expect(map.used).toBe(11)
+  })
+
+  it('describes object keys in toString', () => {
+    const map = new LRUMap<unknown, string>(5, [[['t1', '/a'], 'A'], ['b', 'B']])
+    expect(map.toString()).toBe([
+      'LRUMap {',
+      '  Entry { ord: 1, key: \'b\', value: \'B\' }',
+      '  Entry { ord: 0, key: ["t1","/a"], value: \'A\' }',
+      '}',
+    ].join('\n'))
+  })
+
+  it('describes object keys in errors', async () => {
+    await expect(new LRUMap<RouteKey, string>(5).fetch(['t1', '/a'])).rejects.toThrowError('No loader available to fetch key ["t1","/a"]')
+    const map = new LRUSizedMap<object, string>(100, [], { sizeOf: () => -1 })
+    expect(() => map.set({ id: 1 }, 'A')).toThrowError('Invalid size (-1) calculated for key {"id":1}')
+  })
+
+  it('round trips structural keys through a snapshot', () => {
+    const keyHash = (key: RouteKey) => key.join(':')
+    const map = new LRUMap<RouteKey, string>(5, [[['t1', '/a'], 'A'], [['t1', '/b'], 'B']], { keyHash })
+    const restored = LRUMap.fromJSON<RouteKey, string>(JSON.stringify(map), { keyHash })
+    expect(restored.get(['t1', '/a'])).toBe('A')
+    expect([...restored.keys()]).toEqual([['t1', '/a'], ['t1', '/b']])
+  })
+
+  it('refuses to serialize identity-matched object keys', () => {
+    const map = new LRUMap<object, string>(5, [[{ id: 1 }, 'A']])
+    expect(() => map.dump()).toThrowError(/matching keys by identity/)
+    expect(() => new LRUMap<() => void, string>(5, [[() => 1, 'A']]).dump()).toThrowError(/function key/)
+  })
+})
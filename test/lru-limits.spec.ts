@@ -0,0 +1,80 @@
+import { EvictionReason, LRUSizedMap } from '../src/LRUMap'
+
+describe('Check hybrid limits of LRU Memory-Limited Map', () => {
+
+  it('evicts until both the item and byte limits are satisfied', () => {
+    const map = new LRUSizedMap<string, string>(100, [], { maxItems: 3 })
+    for (const key of ['a', 'b', 'c', 'd'])
+      map.set(key, 'x')
+    expect([...map.keys()]).toEqual(['d', 'c', 'b'])
+    expect(map.used).toBe(3)
+    map.set('e', 'y'.repeat(99))
+    expect([...map.keys()]).toEqual(['e', 'd'])
+    expect(map.used).toBe(100)
+  })
+
+  it('skips values larger than maxEntrySize without flushing the map', () => {
+    const evicted: [string, string, EvictionReason][] = []
+    const map = new LRUSizedMap<string, string>(100, [['a', 'A'], ['b', 'B']], {
+      maxEntrySize: 10,
+      onEvict: (key, value, reason) => evicted.push([key, value, reason]),
+    })
+    map.set('c', 'x'.repeat(11))
+    expect(map.has('c')).toBe(false)
+    expect(map.size).toBe(2)
+    expect(evicted).toEqual([['c', 'x'.repeat(11), 'reject']])
+  })
+
+  it('drops the previous value of a key set to an oversized value', () => {
+    const evicted: [string, string, EvictionReason][] = []
+    const map = new LRUSizedMap<string, string>(100, [['a', 'A']], {
+      maxEntrySize: 10,
+      onEvict: (key, value, reason) => evicted.push([key, value, reason]),
+    })
+    map.set('a', 'x'.repeat(20))
+    expect(map.has('a')).toBe(false)
+    expect(map.used).toBe(0)
+    expect(evicted).toEqual([['a', 'A', 'set'], ['a', 'x'.repeat(20), 'reject']])
+  })
+
+  it('never flushes the map for a value larger than the capacity', () => {
+    const map = new LRUSizedMap<string, string>(10, [['a', 'A'], ['b', 'B']])
+    map.set('c', 'x'.repeat(11))
+    expect([...map.keys()]).toEqual(['b', 'a'])
+    map.accommodate(11)
+    expect(map.used).toBe(2)
+    map.set('d', 'x'.repeat(10))
+    expect([...map.keys()]).toEqual(['d'])
+  })
+
+  it('throws for oversized values when configured to', () => {
+    const map = new LRUSizedMap<string, string>(100, [['a', 'A']], { maxEntrySize: 4, entryOverhead: 1, oversize: 'throw' })
+    expect(() => map.set('b', 'xxxx')).toThrowError(/^Invalid size \(5\) of the entry for key 'b'/)
+    expect(map.used).toBe(2)
+    expect(() => map.set('b', 'xxx')).not.toThrow()
+  })
+
+  it('accommodates a new key within the item limit', () => {
+    const map = new LRUSizedMap<string, string>(100, [['a', 'A'], ['b', 'B']], { maxItems: 2 })
+    map.accommodate(1, 'a')
+    expect(map.size).toBe(2)
+    map.accommodate(1, 'c')
+    expect([...map.keys()]).toEqual(['b'])
+  })
+
+  it('rejects invalid limits', () => {
+    expect(() => new LRUSizedMap(100, [], { maxItems: 0 })).toThrowError(/^Invalid maxItems \(0\)/)
+    expect(() => new LRUSizedMap(100, [], { maxEntrySize: -1 })).toThrowError(/^Invalid maxEntrySize \(-1\)/)
+    expect(() => new LRUSizedMap(100, [], { oversize: 'ignore' as 'skip' })).toThrowError(/^Invalid oversize 'ignore'/)
+  })
+
+  it('admits against the item limit with TinyLFU admission', () => {
+    const map = new LRUSizedMap<string, string>(100, [], { maxItems: 2, admission: 'tinylfu' })
+    map.set('a', 'A')
+    map.set('b', 'B')
+    map.get('a')
+    map.get('b')
+    map.set('c', 'C')
+    expect(map.has('c')).toBe(false)
+  })
+})
@@ -104,11 +104,18 @@ describe('Check functionality of LRU Map', () => {
     map.delete('h') // I, E, G, D
     map.get('b') // I, E, G, D
     const frames = map['frames']
-    const items = map['items']
-    expect(items.length).toEqual(frames.size)
-    for (const [k, i] of Object.entries(frames)) {
-      expect(items[i].key).toBe(k)
+    const keys = []
+    let entry = map['newest']
+    while (entry) {
+      expect(frames.get(entry.key)).toBe(entry)
+      if (entry.next)
+        expect(entry.next.prev).toBe(entry)
+      keys.push(entry.key)
+      entry = entry.next
     }
+    expect(keys).toEqual(['i', 'e', 'g', 'd'])
+    expect(keys.length).toEqual(frames.size)
+    expect(map['oldest'].key).toBe('d')
   })
 
   it('should iterate properly', () => {
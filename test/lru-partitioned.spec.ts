@@ -0,0 +1,109 @@
+import { LRUMap, LRUSizedMap } from '../src/LRUMap'
+import { PartitionedLRU } from '../src/PartitionedLRU'
+
+describe('Check partitioned LRU caches', () => {
+
+  it('routes keys by namespace', () => {
+    const cache = new PartitionedLRU<string, string, number>(10)
+    cache.set('a', 'x', 1).set('b', 'x', 2)
+    expect(cache.get('a', 'x')).toBe(1)
+    expect(cache.get('b', 'x')).toBe(2)
+    expect(cache.get('c', 'x')).toBeNull()
+    expect(cache.has('c', 'x')).toBe(false)
+    expect([...cache.namespaces()]).toEqual(['a', 'b'])
+    expect(cache.partition('a')).toBeInstanceOf(LRUMap)
+    expect(cache.size).toBe(2)
+    expect(cache.delete('a', 'x')).toBe(true)
+    expect(cache.peek('a', 'x')).toBeNull()
+  })
+
+  it('evicts the least recently used entry across partitions', () => {
+    const evicted: string[] = []
+    const cache = new PartitionedLRU<string, string, number>(4, {
+      partitionOptions: { onEvict: (key, value, reason) => evicted.push(`${key}:${reason}`) },
+    })
+    cache.set('a', 'a1', 1).set('b', 'b1', 1).set('a', 'a2', 2).set('b', 'b2', 2)
+    cache.get('a', 'a1')
+    cache.set('c', 'c1', 1)
+    expect(evicted).toEqual(['b1:evict'])
+    cache.set('c', 'c2', 2)
+    expect(evicted).toEqual(['b1:evict', 'a2:evict'])
+    expect(cache.size).toBe(4)
+    expect([...cache.partition('a').keys()]).toEqual(['a1'])
+  })
+
+  it('counts values set in a partition directly, and loaded values', async () => {
+    const cache = new PartitionedLRU<string, string, number>(2)
+    cache.partition('a').set('x', 1)
+    cache.partition('a').set('y', 2)
+    await cache.partition('b').fetch('z', async () => 3)
+    expect(cache.size).toBe(2)
+    expect(cache.has('a', 'x')).toBe(false)
+    expect(cache.get('b', 'z')).toBe(3)
+  })
+
+  it('never evicts below the minimum of a namespace', () => {
+    const cache = new PartitionedLRU<string, number, number>(4, { limits: [['vip', { min: 2 }]] })
+    cache.set('vip', 1, 1).set('vip', 2, 2)
+    for (let i = 0; i < 10; i++)
+      cache.set('free', i, i)
+    expect([...cache.partition('vip').keys()]).toEqual([2, 1])
+    expect([...cache.partition('free').keys()]).toEqual([9, 8])
+  })
+
+  it('caps a namespace at its maximum', () => {
+    const cache = new PartitionedLRU<string, number, number>(10, { limits: [['small', { max: 2 }]] })
+    for (let i = 0; i < 5; i++)
+      cache.set('small', i, i)
+    expect(cache.partition('small').size).toBe(2)
+    cache.setLimits('small', { max: 3 })
+    for (let i = 0; i < 5; i++)
+      cache.set('small', i, i)
+    expect(cache.partition('small').size).toBe(3)
+  })
+
+  it('evicts from the partition using the most with fair eviction', () => {
+    const cache = new PartitionedLRU<string, number, number>(6, { eviction: 'fair' })
+    for (let i = 0; i < 5; i++)
+      cache.set('big', i, i)
+    cache.set('small', 0, 0)
+    cache.get('big', 0)
+    cache.set('small', 1, 1)
+    expect(cache.partition('big').size).toBe(4)
+    expect(cache.partition('small').size).toBe(2)
+    expect(cache.has('big', 0)).toBe(true)
+  })
+
+  it('shares a byte capacity between sized partitions', () => {
+    const cache = new PartitionedLRU<string, string, string>(100, { sized: true })
+    cache.set('a', 'x', 'x'.repeat(40)).set('b', 'y', 'y'.repeat(40))
+    expect(cache.partition('a')).toBeInstanceOf(LRUSizedMap)
+    cache.set('b', 'z', 'z'.repeat(40))
+    expect(cache.used).toBe(80)
+    expect(cache.has('a', 'x')).toBe(false)
+  })
+
+  it('clears a namespace and keeps per-namespace stats', () => {
+    const cache = new PartitionedLRU<string, string, number>(10)
+    cache.set('a', 'x', 1).set('b', 'y', 2)
+    cache.get('a', 'x')
+    cache.get('a', 'z')
+    expect(cache.stats('a')).toMatchObject({ hits: 1, misses: 1, sets: 1, size: 1 })
+    expect(cache.stats('b')).toMatchObject({ hits: 0, sets: 1 })
+    expect(cache.clearNamespace('a')).toBe(true)
+    expect(cache.clearNamespace('a')).toBe(false)
+    expect([...cache.namespaces()]).toEqual(['b'])
+    cache.clear()
+    expect(cache.size).toBe(0)
+  })
+
+  it('validates its capacity and limits', () => {
+    expect(() => new PartitionedLRU(1)).toThrow('Invalid capacity (1)')
+    expect(() => new PartitionedLRU(10, { eviction: 'random' as 'lru' })).toThrow('Invalid eviction \'random\'')
+    const cache = new PartitionedLRU<string, string, number>(10, { limits: [['a', { min: 6 }]] })
+    expect(() => cache.setLimits('b', { min: 5 })).toThrow('The minimums of all namespaces must not exceed the capacity (10)')
+    expect(() => cache.setLimits('b', { max: 11 })).toThrow('Invalid max (11)')
+    expect(() => cache.setLimits('b', { min: 3, max: 2 })).toThrow('Invalid min (3)')
+    expect(() => cache.setLimits('a', { min: 10 })).not.toThrow()
+  })
+})
@@ -0,0 +1,157 @@
+import { appendFileSync, existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { FilePersistence } from '../src/FilePersistence'
+import { LRUMap, LRUSizedMap } from '../src/LRUMap'
+
+describe('Check file persistence of LRU maps', () => {
+
+  let dir: string
+  let path: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'lru-'))
+    path = join(dir, 'cache.json')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('saves a snapshot and restores it into a new map', () => {
+    const map = new LRUMap<string, string>(5, [['a', 'A'], ['b', 'B'], ['c', 'C']])
+    new FilePersistence(map, { path, saveOnExit: false }).save()
+    const restored = new LRUMap<string, string>(5)
+    new FilePersistence(restored, { path, saveOnExit: false })
+    expect([...restored.entries()]).toEqual([['c', 'C'], ['b', 'B'], ['a', 'A']])
+  })
+
+  it('writes snapshots atomically without leaving temporary files', () => {
+    const map = new LRUMap<string, string>(5, [['a', 'A']])
+    const persistence = new FilePersistence(map, { path, saveOnExit: false })
+    persistence.save()
+    map.set('b', 'B')
+    persistence.save()
+    expect(readdirSync(dir)).toEqual(['cache.json'])
+    expect(JSON.parse(readFileSync(path, 'utf8')).entries).toHaveLength(2)
+  })
+
+  it('saves on close and stops listening', () => {
+    const map = new LRUMap<string, string>(5)
+    const persistence = new FilePersistence(map, { path, writeAheadLog: true })
+    map.set('a', 'A')
+    persistence.close()
+    map.set('b', 'B')
+    expect(existsSync(`${path}.wal`)).toBe(false)
+    expect(new FilePersistence(new LRUMap<string, string>(5), { path, saveOnExit: false }).map.size).toBe(1)
+  })
+
+  it('replays the write-ahead log over the snapshot', () => {
+    let now = 0
+    const map = new LRUMap<string, string>(5, [['a', 'A'], ['b', 'B']], { clock: () => now })
+    const persistence = new FilePersistence(map, { path, writeAheadLog: true, saveOnExit: false })
+    persistence.save()
+    map.set('c', 'C', { ttl: 100 })
+    map.delete('a')
+    map.get('b')
+    expect(readFileSync(`${path}.wal`, 'utf8').trim().split('\n')).toHaveLength(2)
+    const restored = new LRUMap<string, string>(5, [], { clock: () => now })
+    new FilePersistence(restored, { path, saveOnExit: false })
+    expect([...restored.keys()]).toEqual(['c', 'b'])
+    now = 100
+    expect(restored.has('c')).toBe(false)
+  })
+
+  it('replays the tags of set records', () => {
+    const map = new LRUMap<string, string>(5)
+    new FilePersistence(map, { path, writeAheadLog: true, saveOnExit: false })
+    map.set('a', 'A', { tags: ['letters'] })
+    map.set('b', 'B')
+    const restored = new LRUMap<string, string>(5)
+    new FilePersistence(restored, { path, saveOnExit: false })
+    expect(restored.invalidateTag('letters')).toBe(1)
+    expect([...restored.keys()]).toEqual(['b'])
+  })
+
+  it('logs a rejected set as a removal', () => {
+    const map = new LRUSizedMap<string, string>(100, [], { maxEntrySize: 10 })
+    new FilePersistence(map, { path, writeAheadLog: true, saveOnExit: false })
+    map.set('a', 'old')
+    map.set('a', 'x'.repeat(20))
+    expect(map.has('a')).toBe(false)
+    const restored = new LRUSizedMap<string, string>(100, [], { maxEntrySize: 10 })
+    new FilePersistence(restored, { path, saveOnExit: false })
+    expect(restored.has('a')).toBe(false)
+  })
+
+  it('replays clear records', () => {
+    const map = new LRUMap<string, string>(5, [['a', 'A']])
+    const persistence = new FilePersistence(map, { path, writeAheadLog: true, saveOnExit: false })
+    persistence.save()
+    map.clear()
+    map.set('b', 'B')
+    const restored = new LRUMap<string, string>(5)
+    new FilePersistence(restored, { path, saveOnExit: false })
+    expect([...restored.keys()]).toEqual(['b'])
+  })
+
+  it('ignores a torn record at the end of the log', () => {
+    writeFileSync(`${path}.wal`, '{"op":"set","key":"a","value":"A"}\n')
+    appendFileSync(`${path}.wal`, '{"op":"set","key":"b","val')
+    const map = new LRUMap<string, string>(5)
+    new FilePersistence(map, { path, saveOnExit: false })
+    expect([...map.keys()]).toEqual(['a'])
+  })
+
+  it('recovers from a torn record across later restarts', () => {
+    writeFileSync(`${path}.wal`, '{"op":"set","key":"a","value":"A"}\n')
+    appendFileSync(`${path}.wal`, '{"op":"set","key":"b","val')
+    const map = new LRUMap<string, string>(5)
+    new FilePersistence(map, { path, writeAheadLog: true, saveOnExit: false })
+    map.set('c', 'C')
+    map.set('d', 'D')
+    const restored = new LRUMap<string, string>(5)
+    new FilePersistence(restored, { path, writeAheadLog: true, saveOnExit: false })
+    expect([...restored.keys()]).toEqual(['d', 'c', 'a'])
+  })
+
+  it('rejects a corrupt record in the middle of the log', () => {
+    writeFileSync(`${path}.wal`, 'garbage\n{"op":"clear"}\n')
+    expect(() => new FilePersistence(new LRUMap(5), { path, saveOnExit: false })).toThrowError(/^Corrupt write-ahead log/)
+  })
+
+  it('persists Buffers in a sized map', () => {
+    const map = new LRUSizedMap<string, Buffer>(64)
+    const persistence = new FilePersistence(map, { path, writeAheadLog: true, saveOnExit: false })
+    map.set('a', Buffer.from([1, 2, 3]))
+    persistence.save()
+    map.set('b', Buffer.from([4, 5]))
+    const restored = new LRUSizedMap<string, Buffer>(64)
+    new FilePersistence(restored, { path, saveOnExit: false })
+    expect(restored.peek('a')).toEqual(Buffer.from([1, 2, 3]))
+    expect(restored.peek('b')).toEqual(Buffer.from([4, 5]))
+    expect(restored.used).toBe(5)
+  })
+
+  it('saves on an interval', () => {
+    jest.useFakeTimers()
+    try {
+      const map = new LRUMap<string, string>(5, [['a', 'A']])
+      const persistence = new FilePersistence(map, { path, interval: 1000, saveOnExit: false })
+      expect(existsSync(path)).toBe(false)
+      jest.advanceTimersByTime(1000)
+      expect(existsSync(path)).toBe(true)
+      persistence.close()
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  it('reports background failures to the error hook', () => {
+    const onError = jest.fn()
+    const map = new LRUMap<symbol, string>(5)
+    new FilePersistence(map, { path, writeAheadLog: true, saveOnExit: false, onError })
+    map.set(Symbol('a'), 'A')
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: expect.stringMatching(/symbol key/) }))
+  })
+})
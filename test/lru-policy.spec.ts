@@ -0,0 +1,139 @@
+import { EvictionPolicy, PolicyName, PolicyNode } from '../src/EvictionPolicy'
+import { LRUMap, LRUSizedMap } from '../src/LRUMap'
+import { hitRate, scanTrace, skewedTrace } from './traces'
+
+const POLICIES: PolicyName[] = ['lru', 'lfu', 'slru', '2q', 'arc', 'w-tinylfu']
+
+describe('Check eviction policies of LRU maps', () => {
+
+  it.each(POLICIES)('keeps the %s policy within capacity', policy => {
+    const map = new LRUMap<string, string>(50, [], { policy })
+    const trace = skewedTrace(5000)
+    hitRate(map, trace)
+    expect(map.size).toBe(50)
+    expect(new Set(map.keys()).size).toBe(50)
+    for (const key of map.keys())
+      expect(map.peek(key)).toBe(key)
+  })
+
+  it.each(POLICIES)('keeps a sized map with the %s policy within capacity', policy => {
+    const map = new LRUSizedMap<string, string>(500, [], { policy })
+    hitRate(map, skewedTrace(5000))
+    expect(map.used).toBeLessThanOrEqual(500)
+    expect([...map.values()].reduce((total, value) => total + value.length, 0)).toBe(map.used)
+  })
+
+  it('evicts the least frequently used entry with lfu', () => {
+    const map = new LRUMap<string, string>(3, [['a', 'A'], ['b', 'B'], ['c', 'C']], { policy: 'lfu' })
+    map.get('a')
+    map.get('a')
+    map.get('c')
+    map.set('d', 'D')
+    expect([...map.keys()].sort()).toEqual(['a', 'c', 'd'])
+    map.set('e', 'E')
+    expect([...map.keys()].sort()).toEqual(['a', 'c', 'e'])
+  })
+
+  it('protects entries read more than once with slru', () => {
+    const map = new LRUMap<string, string>(5, [['a', 'A'], ['b', 'B']], { policy: 'slru' })
+    map.get('a')
+    map.get('b')
+    for (let i = 0; i < 20; i++)
+      map.set(`scan-${i}`, 'x')
+    expect(map.has('a')).toBe(true)
+    expect(map.has('b')).toBe(true)
+    expect(map.size).toBe(5)
+  })
+
+  it('admits keys set again after eviction to the main queue with 2q', () => {
+    const map = new LRUMap<string, string>(8, [], { policy: '2q' })
+    for (let i = 0; i < 8; i++)
+      map.set(i.toString(), 'x')
+    map.set('8', 'x')
+    expect(map.has('0')).toBe(false)
+    map.set('0', 'x')
+    for (let i = 0; i < 20; i++)
+      map.set(`scan-${i}`, 'x')
+    expect(map.has('0')).toBe(true)
+  })
+
+  it('adapts to entries evicted too early with arc', () => {
+    const map = new LRUMap<string, string>(4, [], { policy: 'arc' })
+    for (const key of ['a', 'b', 'a', 'b', 'c', 'd', 'e', 'f'])
+      if (map.get(key) === null)
+        map.set(key, key)
+    expect(map.has('a')).toBe(true)
+    expect(map.has('b')).toBe(true)
+    expect(map.has('c')).toBe(false)
+  })
+
+  it('resets the policy on clear', () => {
+    const map = new LRUMap<string, string>(3, [['a', 'A'], ['b', 'B'], ['c', 'C']], { policy: 'lfu' })
+    map.get('a')
+    map.clear()
+    for (const key of ['x', 'y', 'z', 'w'])
+      map.set(key, key)
+    expect([...map.keys()].sort()).toEqual(['w', 'y', 'z'])
+  })
+
+  it('stops tracking deleted and expired entries', () => {
+    let now = 0
+    const map = new LRUMap<string, string>(3, [], { policy: 'arc', ttl: 10, clock: () => now })
+    map.set('a', 'A')
+    map.set('b', 'B', { ttl: 0 })
+    map.delete('b')
+    now = 10
+    expect(map.purgeStale()).toBe(1)
+    for (const key of ['c', 'd', 'e', 'f'])
+      map.set(key, key)
+    expect([...map.keys()]).toEqual(['f', 'e', 'd'])
+  })
+
+  it('accepts a custom policy factory', () => {
+    const order: PolicyNode<string>[] = []
+    const fifo = (): EvictionPolicy<string> => ({
+      insert: node => order.push(node),
+      access: () => undefined,
+      remove: node => order.includes(node) && order.splice(order.indexOf(node), 1) && undefined,
+      peek: () => order[0],
+      evict: () => order.shift(),
+      clear: () => order.splice(0),
+    })
+    const map = new LRUMap<string, string>(2, [['a', 'A'], ['b', 'B']], { policy: fifo })
+    map.get('a')
+    map.set('c', 'C')
+    expect([...map.keys()]).toEqual(['c', 'b'])
+  })
+
+  it('rejects unknown policies', () => {
+    expect(() => new LRUMap(5, [], { policy: 'mru' as PolicyName })).toThrowError(/^Invalid eviction policy 'mru'/)
+  })
+
+  it('matches structural keys in ghost lists', () => {
+    const map = new LRUMap<[string, number], string>(4, [], { policy: '2q', keyHash: key => key.join(':') })
+    for (let i = 0; i < 5; i++)
+      map.set(['k', i], 'x')
+    expect(map.has(['k', 0])).toBe(false)
+    map.set(['k', 0], 'x')
+    for (let i = 0; i < 10; i++)
+      map.set(['scan', i], 'x')
+    expect(map.has(['k', 0])).toBe(true)
+  })
+})
+
+describe('Compare hit rates of eviction policies on traces', () => {
+
+  const rates = (trace: string[]) => Object.fromEntries(POLICIES.map(policy =>
+    [policy, hitRate(new LRUMap<string, string>(100, [], { policy }), trace)]))
+
+  it('resists scans with slru, 2q, arc and w-tinylfu', () => {
+    const result = rates(scanTrace(40000))
+    for (const policy of ['slru', '2q', 'arc', 'w-tinylfu'])
+      expect(result[policy]).toBeGreaterThan(result.lru * 1.1)
+  })
+
+  it('favors popular keys with lfu', () => {
+    const result = rates(skewedTrace(40000))
+    expect(result.lfu).toBeGreaterThan(result.lru)
+  })
+})
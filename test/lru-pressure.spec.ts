@@ -0,0 +1,129 @@
+import { LRUMap, LRUSizedMap } from '../src/LRUMap'
+import { MemoryPressureController, MemorySample } from '../src/MemoryPressure'
+
+describe('Check memory pressure control of LRU maps', () => {
+
+  let sample: MemorySample
+  const probe = () => sample
+
+  beforeEach(() => {
+    sample = { heapUsed: 0, rss: 0 }
+  })
+
+  function filled(capacity: number): LRUMap<number, number> {
+    const map = new LRUMap<number, number>(capacity)
+    for (let i = 0; i < capacity; i++)
+      map.set(i, i)
+    return map
+  }
+
+  it('shrinks caches by a step at each check above the high-water mark', () => {
+    const controller = new MemoryPressureController({ heapHighWater: 1000, interval: 0, probe })
+    const map = filled(100)
+    controller.register(map)
+    sample.heapUsed = 1001
+    expect(controller.check()).toBeCloseTo(0.1)
+    expect(map.capacity).toBe(90)
+    expect(map.size).toBe(90)
+    controller.check()
+    controller.check()
+    expect(map.capacity).toBe(70)
+    expect(map.has(99)).toBe(true)
+    expect(map.has(29)).toBe(false)
+  })
+
+  it('restores capacity once usage drops below the low-water mark', () => {
+    const controller = new MemoryPressureController({ rssHighWater: 1000, interval: 0, probe })
+    const map = filled(100)
+    controller.register(map)
+    sample.rss = 2000
+    controller.check()
+    controller.check()
+    expect(map.capacity).toBe(80)
+    sample.rss = 950
+    controller.check()
+    expect(map.capacity).toBe(80)
+    sample.rss = 800
+    controller.check()
+    expect(map.capacity).toBe(90)
+    controller.check()
+    expect(map.capacity).toBe(100)
+    expect(controller.check()).toBe(0)
+  })
+
+  it('never shrinks caches below minRatio or minCapacity', () => {
+    const controller = new MemoryPressureController({ heapHighWater: 1000, step: 0.5, minRatio: 0.2, interval: 0, probe })
+    const map = filled(100)
+    const small = filled(10)
+    controller.register(map).register(small, { minCapacity: 5 })
+    sample.heapUsed = 5000
+    for (let i = 0; i < 5; i++)
+      controller.check()
+    expect(controller.level).toBe(0.8)
+    expect(map.capacity).toBe(20)
+    expect(small.capacity).toBe(5)
+  })
+
+  it('shrinks caches of higher priority less', () => {
+    const controller = new MemoryPressureController({ heapHighWater: 1000, step: 0.4, interval: 0, probe })
+    const low = filled(100)
+    const high = filled(100)
+    controller.register(low).register(high, { priority: 4 })
+    sample.heapUsed = 1500
+    controller.check()
+    expect(low.capacity).toBe(60)
+    expect(high.capacity).toBe(90)
+  })
+
+  it('shrinks an LRUSizedMap by bytes', () => {
+    const controller = new MemoryPressureController({ heapHighWater: 1000, step: 0.5, interval: 0, probe })
+    const map = new LRUSizedMap<string, string>(100, [['a', 'x'.repeat(40)], ['b', 'x'.repeat(40)]])
+    controller.register(map)
+    sample.heapUsed = 1001
+    controller.check()
+    expect(map.capacity).toBe(50)
+    expect([...map.keys()]).toEqual(['b'])
+  })
+
+  it('restores the capacity of unregistered caches', () => {
+    const controller = new MemoryPressureController({ heapHighWater: 1000, interval: 0, probe })
+    const map = filled(100)
+    const other = filled(10)
+    controller.register(map).register(other)
+    sample.heapUsed = 2000
+    controller.check()
+    expect(controller.unregister(map)).toBe(true)
+    expect(controller.unregister(map)).toBe(false)
+    expect(map.capacity).toBe(100)
+    controller.close()
+    expect(other.capacity).toBe(10)
+    expect(controller.level).toBe(0)
+  })
+
+  it('checks memory at an interval', () => {
+    jest.useFakeTimers()
+    try {
+      const controller = new MemoryPressureController({ heapHighWater: 1000, interval: 100, probe })
+      const map = filled(100)
+      controller.register(map)
+      sample.heapUsed = 2000
+      jest.advanceTimersByTime(250)
+      expect(map.capacity).toBe(80)
+      controller.close()
+      jest.advanceTimersByTime(1000)
+      expect(map.capacity).toBe(100)
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  it('validates its options', () => {
+    expect(() => new MemoryPressureController({ interval: 0 })).toThrow('A heapHighWater or rssHighWater must be provided')
+    expect(() => new MemoryPressureController({ heapHighWater: -1, interval: 0 })).toThrow('Invalid heapHighWater (-1)')
+    expect(() => new MemoryPressureController({ heapHighWater: 1, step: 0, interval: 0 })).toThrow('Invalid step (0)')
+    const controller = new MemoryPressureController({ heapHighWater: 1, interval: 0 })
+    expect(() => controller.register(LRUMap.unbounded())).toThrow('Invalid cache')
+    expect(() => controller.register(filled(10), { priority: 0.5 })).toThrow('Invalid priority (0.5)')
+    expect(() => controller.register(filled(10), { minCapacity: 1 })).toThrow('Invalid minCapacity (1)')
+  })
+})
@@ -0,0 +1,94 @@
+import { EvictionReason, LRUMap, LRUSizedMap } from '../src/LRUMap'
+
+describe('Check runtime resizing of LRU Maps', () => {
+
+  it('evicts the least recently used entries when shrinking', () => {
+    const evicted: [string, number, EvictionReason][] = []
+    const map = new LRUMap<string, number>(5, [['a', 1], ['b', 2], ['c', 3], ['d', 4], ['e', 5]], {
+      onEvict: (key, value, reason) => evicted.push([key, value, reason]),
+    })
+    map.get('a')
+    expect(map.resize(3)).toBe(map)
+    expect(map.capacity).toBe(3)
+    expect([...map.keys()]).toEqual(['a', 'e', 'd'])
+    expect(evicted).toEqual([['b', 2, 'evict'], ['c', 3, 'evict']])
+  })
+
+  it('holds more entries after growing', () => {
+    const map = new LRUMap<string, number>(2, [['a', 1], ['b', 2]])
+    map.resize(4)
+    map.set('c', 3).set('d', 4)
+    expect(map.size).toBe(4)
+    map.set('e', 5)
+    expect([...map.keys()]).toEqual(['e', 'd', 'c', 'b'])
+  })
+
+  it('switches to and from unbounded', () => {
+    const map = new LRUMap<number, number>(2)
+    map.resize(-1)
+    for (let i = 0; i < 100; i++)
+      map.set(i, i)
+    expect(map.size).toBe(100)
+    map.resize(10)
+    expect(map.size).toBe(10)
+    expect(map.has(99)).toBe(true)
+    expect(map.has(89)).toBe(false)
+  })
+
+  it('validates the new capacity as the constructor does', () => {
+    const map = new LRUMap<string, number>(3, [['a', 1]])
+    expect(() => map.resize(0)).toThrow('Invalid capacity (0)')
+    expect(() => map.resize(1)).toThrow('Invalid capacity (1)')
+    expect(() => map.resize(-5)).toThrow('Invalid capacity (-5)')
+    expect(() => map.resize(NaN)).toThrow('Invalid capacity (NaN)')
+    expect(() => map.resize(2.5)).toThrow('Invalid capacity (2.5)')
+    expect(() => map.resize('3' as unknown as number)).toThrow('Invalid capacity (3)')
+    expect(map.capacity).toBe(3)
+    expect(map.size).toBe(1)
+  })
+
+  it('adapts the eviction policy to the new capacity', () => {
+    const map = new LRUMap<string, number>(4, [], { policy: 'slru' })
+    map.set('a', 1).set('b', 2).set('c', 3).set('d', 4)
+    map.get('a')
+    map.get('b')
+    map.resize(2)
+    expect([...map.keys()].sort()).toEqual(['a', 'b'])
+    map.set('e', 5)
+    expect(map.size).toBe(2)
+  })
+
+  it('evicts down to a smaller byte capacity', () => {
+    const evicted: string[] = []
+    const map = new LRUSizedMap<string, string>(100, [['a', 'x'.repeat(40)], ['b', 'x'.repeat(40)]], {
+      onEvict: key => evicted.push(key),
+    })
+    expect(map.setMaxBytes(50)).toBe(map)
+    expect(map.capacity).toBe(50)
+    expect([...map.keys()]).toEqual(['b'])
+    expect(map.used).toBe(40)
+    expect(evicted).toEqual(['a'])
+  })
+
+  it('caps maxEntrySize by the new byte capacity', () => {
+    const map = new LRUSizedMap<string, string>(100, [], { maxEntrySize: 60 })
+    map.setMaxBytes(20)
+    map.set('a', 'x'.repeat(30))
+    expect(map.has('a')).toBe(false)
+    map.setMaxBytes(200)
+    map.set('a', 'x'.repeat(60))
+    expect(map.used).toBe(60)
+    map.set('b', 'x'.repeat(61))
+    expect(map.has('b')).toBe(false)
+  })
+
+  it('rejects an invalid byte capacity', () => {
+    const map = new LRUSizedMap<string, string>(100, [['a', 'A']])
+    expect(() => map.setMaxBytes(0)).toThrow('Invalid maxBytes capacity (0)')
+    expect(() => map.setMaxBytes(-1)).toThrow('Invalid maxBytes capacity (-1)')
+    expect(() => map.setMaxBytes(NaN)).toThrow('Invalid maxBytes capacity (NaN)')
+    expect(() => map.setMaxBytes(10.5)).toThrow('Invalid maxBytes capacity (10.5)')
+    expect(map.capacity).toBe(100)
+    expect(map.size).toBe(1)
+  })
+})
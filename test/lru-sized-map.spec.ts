@@ -1,6 +1,6 @@
 
 import { randomBytes } from 'crypto'
-import { LRUSizedMap } from '../src/LRUMap'
+import { ByteLengthAware, LRUSizedMap } from '../src/LRUMap'
 import { LRUSizedArray } from '../src/LRUArray'
 
 describe('Check functionality of LRU Memory-Limited Map', () => {
@@ -89,4 +89,94 @@ describe('Check functionality of LRU Memory-Limited Map', () => {
     map.set('A', new LRUSizedArray(['foo', 'bar', 'baz']))
     expect(map.used).toBe(9)
   })
+
+  it('should count the UTF-8 bytes of multi-byte strings', () => {
+    const map = new LRUSizedMap<string, string>(16)
+    map.set('A', 'é')
+    expect(map.used).toBe(2)
+    map.set('B', '日本')
+    expect(map.used).toBe(8)
+    map.set('C', '😀')
+    expect(map.used).toBe(12)
+    map.set('D', '日本語')
+    expect(map.used).toBe(13)
+    expect([...map.keys()]).toEqual(['D', 'C'])
+  })
+
+  it('should match Buffer.byteLength for surrogate pairs and lone surrogates', () => {
+    const strings = ['a😀b', '\ud83d', '\ude00x', 'x\ud83d\ud83d\ude00', '𝄞𝄞']
+    const map = new LRUSizedMap<string, string>(1024)
+    for (const value of strings) {
+      map.set('A', value)
+      expect(map.used).toBe(Buffer.byteLength(value, 'utf8'))
+    }
+  })
+
+  it('should count strings in the selected encoding', () => {
+    const value = '日本😀'
+    expect(new LRUSizedMap<string, string>(64, [['A', value]], { encoding: 'utf8' }).used).toBe(10)
+    expect(new LRUSizedMap<string, string>(64, [['A', value]], { encoding: 'utf16' }).used).toBe(8)
+    expect(new LRUSizedMap<string, string>(64, [['A', value]], { encoding: 'code-units' }).used).toBe(4)
+    expect(() => new LRUSizedMap(64, [], { encoding: 'latin1' as any })).toThrowError(/^Invalid string encoding/)
+  })
+
+  it('should evict and accommodate by UTF-8 byte size', () => {
+    const map = new LRUSizedMap<string, string>(12)
+    map.set('A', '日本')
+    map.set('B', '日本')
+    expect(map.size).toBe(2)
+    map.set('C', '😀')
+    expect(map.size).toBe(2)
+    expect(map.used).toBe(10)
+    map.accommodate(6)
+    expect(map.used).toBe(4)
+  })
+
+  it('should report the byte length of LRUSizedArray strings', () => {
+    const array = new LRUSizedArray<ByteLengthAware>(['日本', Buffer.alloc(3), new LRUSizedArray(['😀'])])
+    expect(array.length).toBe(13)
+    expect(array.byteLength('utf16')).toBe(11)
+    expect(array.byteLength('code-units')).toBe(7)
+    const map = new LRUSizedMap<string, LRUSizedArray<ByteLengthAware>>(64, [['A', array]], { encoding: 'code-units' })
+    expect(map.used).toBe(7)
+  })
+
+  it('should count key bytes when enabled', () => {
+    const map = new LRUSizedMap<string | number, string>(32, [], { countKeys: true })
+    map.set('key', 'value')
+    expect(map.used).toBe(8)
+    map.set('日本', 'AB')
+    expect(map.used).toBe(16)
+    map.set(42, 'AB')
+    expect(map.used).toBe(26)
+    map.remove('key')
+    expect(map.used).toBe(18)
+  })
+
+  it('should add the entry overhead to every entry', () => {
+    const map = new LRUSizedMap<string, string>(100, [['A', 'aaaa'], ['B', 'bb']], { entryOverhead: 16 })
+    expect(map.used).toBe(38)
+    map.set('A', 'a')
+    expect(map.used).toBe(35)
+    map.set('C', 'c'.repeat(40))
+    expect(map.used).toBe(91)
+    map.set('D', 'd')
+    expect([...map.keys()]).toEqual(['D', 'C', 'A'])
+    expect(map.used).toBe(90)
+  })
+
+  it('should accommodate the overhead and key of an entry', () => {
+    const map = new LRUSizedMap<string, string>(40, [['A', 'aaaa'], ['B', 'bbbb']], { countKeys: true, entryOverhead: 10 })
+    expect(map.used).toBe(30)
+    map.accommodate(1)
+    expect(map.size).toBe(1)
+    expect(map.used).toBe(15)
+    map.accommodate(11, 'CCCCC')
+    expect(map.size).toBe(0)
+  })
+
+  it('should throw on an invalid entry overhead', () => {
+    expect(() => new LRUSizedMap(64, [], { entryOverhead: -1 })).toThrowError(/^Invalid entryOverhead/)
+    expect(() => new LRUSizedMap(64, [], { entryOverhead: Infinity })).toThrowError(/^Invalid entryOverhead/)
+  })
 })
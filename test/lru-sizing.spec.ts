@@ -0,0 +1,72 @@
+import { LRUSizedMap } from '../src/LRUMap'
+import { LRUSizedArray } from '../src/LRUArray'
+import { binaryLengthOf, byteLengthOf, estimateSizeOf } from '../src/Sizing'
+
+describe('Check size calculators of LRU Memory-Limited Map', () => {
+
+  it('sizes string, Buffer and LRUSizedArray values by default', () => {
+    expect(byteLengthOf('abc')).toBe(3)
+    expect(byteLengthOf(Buffer.alloc(16))).toBe(16)
+    expect(byteLengthOf(new LRUSizedArray(['ab', 'cd']))).toBe(4)
+    expect(() => byteLengthOf([1, 2])).toThrowError(/native JS arrays/)
+    expect(() => byteLengthOf({})).toThrowError(/can only accept/)
+  })
+
+  it('rejects unsupported values without a size calculator', () => {
+    const map = new LRUSizedMap<string, any>(100)
+    expect(() => map.set('a', { foo: 'bar' })).toThrowError(/can only accept/)
+    expect(map.size).toBe(0)
+    expect(map.used).toBe(0)
+  })
+
+  it('sizes binary values', () => {
+    expect(binaryLengthOf(new ArrayBuffer(8))).toBe(8)
+    expect(binaryLengthOf(new Uint8Array(10))).toBe(10)
+    expect(binaryLengthOf(new Float64Array(4))).toBe(32)
+    expect(binaryLengthOf(new DataView(new ArrayBuffer(12), 4))).toBe(8)
+    expect(() => binaryLengthOf('abc')).toThrowError(/non-binary/)
+  })
+
+  it('estimates the size of structured values', () => {
+    expect(estimateSizeOf('ab')).toBe(4)
+    expect(estimateSizeOf({ a: 1, bb: 'x' })).toBe(2 + 8 + 4 + 2)
+    expect(estimateSizeOf([1, 2, true])).toBe(20)
+    expect(estimateSizeOf({ data: new Uint8Array(100) })).toBe(108)
+    const cyclic: any = { a: 1 }
+    cyclic.self = cyclic
+    expect(estimateSizeOf(cyclic)).toBe(2 + 8 + 8)
+  })
+
+  it('bounds a map of typed arrays by their byte length', () => {
+    const map = new LRUSizedMap<string, Uint8Array>(1024, [], { sizeOf: binaryLengthOf })
+    for (let i = 0; i < 8; i++)
+      map.set(i.toString(), new Uint8Array(256))
+    expect(map.used).toBe(1024)
+    expect(map.size).toBe(4)
+    expect(map.tail.key).toBe('4')
+  })
+
+  it('bounds a map of plain objects with a custom calculator', () => {
+    const sizeOf = jest.fn((value: { body: string }, key: string) => key.length + value.body.length)
+    const map = new LRUSizedMap<string, { body: string }>(20, [['a', { body: 'xxxx' }]], { sizeOf })
+    expect(sizeOf).toHaveBeenCalledWith({ body: 'xxxx' }, 'a')
+    map.set('bb', { body: 'yyyyyy' })
+    expect(map.used).toBe(13)
+    map.set('a', { body: 'x' })
+    expect(map.used).toBe(10)
+    map.set('ccc', { body: 'zzzzzzzzzzzz' })
+    expect(map.used).toBe(17)
+    expect([...map.keys()]).toEqual(['ccc', 'a'])
+  })
+
+  it('rejects negative or non-finite sizes', () => {
+    const sizes = [-1, NaN, Infinity, '3']
+    for (const size of sizes) {
+      const map = new LRUSizedMap<string, string>(100, [['a', 'A']], { sizeOf: (value, key) => key === 'a' ? 1 : size as number })
+      expect(() => map.set('b', 'B')).toThrowError(/^Invalid size/)
+      expect(() => map.set('a', 'B', { ttl: 0 })).not.toThrow()
+      expect(map.size).toBe(1)
+      expect(map.used).toBe(1)
+    }
+  })
+})
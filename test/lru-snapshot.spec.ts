@@ -0,0 +1,109 @@
+import { randomBytes } from 'crypto'
+import { LRUMap, LRUSizedMap } from '../src/LRUMap'
+import { LRUSizedArray } from '../src/LRUArray'
+import { LRUSnapshot, SnapshotEntry, SNAPSHOT_VERSION, ValueSerializer } from '../src/Snapshot'
+
+describe('Check serialization of LRU maps', () => {
+
+  it('round-trips entries in recency order', () => {
+    const map = new LRUMap<string, string>(5, [['a', 'A'], ['b', 'B'], ['c', 'C']])
+    map.get('a')
+    const copy = LRUMap.fromJSON<string, string>(JSON.stringify(map))
+    expect([...copy.entries()]).toEqual([['a', 'A'], ['c', 'C'], ['b', 'B']])
+    expect(copy.capacity).toBe(5)
+    expect(copy.tail.key).toBe('b')
+  })
+
+  it('takes a versioned snapshot', () => {
+    const map = new LRUMap<number, object>(3, [[1, { x: 1 }], [2, { x: 2 }]])
+    expect(map.dump()).toEqual({
+      version: SNAPSHOT_VERSION,
+      type: 'LRUMap',
+      capacity: 3,
+      entries: [
+        { key: 2, value: { x: 2 } },
+        { key: 1, value: { x: 1 } },
+      ],
+    })
+  })
+
+  it('round-trips an unbounded map', () => {
+    const map = LRUMap.unbounded<string, number>([['a', 1], ['b', 2]])
+    const copy = LRUMap.load<string, number>(map.dump())
+    expect(copy.capacity).toBe(-1)
+    expect([...copy.keys()]).toEqual(['b', 'a'])
+  })
+
+  it('preserves expiration metadata and skips expired entries', () => {
+    let now = 1000
+    const clock = () => now
+    const map = new LRUMap<string, string>(5, [], { clock })
+    map.set('a', 'A', { ttl: 100 })
+    map.set('b', 'B', { ttl: 500, staleAfter: 50 })
+    map.set('c', 'C')
+    now = 1100
+    const snapshot = map.dump()
+    expect(snapshot.entries).toEqual([
+      { key: 'c', value: 'C' },
+      { key: 'b', value: 'B', expiresAt: 1500, staleAt: 1050 },
+    ])
+    const copy = LRUMap.load<string, string>(snapshot, { clock })
+    expect(copy.lookup('b')).toEqual({ value: 'B', state: 'stale' })
+    now = 1500
+    expect(copy.has('b')).toBe(false)
+    expect(copy.has('c')).toBe(true)
+  })
+
+  it('uses a custom value serializer', () => {
+    const serializer: ValueSerializer<Date> = {
+      serialize: date => date.toISOString(),
+      deserialize: data => new Date(data as string),
+    }
+    const map = new LRUMap<string, Date>(5, [['epoch', new Date(0)]])
+    const json = JSON.stringify(map.dump(serializer))
+    const copy = LRUMap.load<string, Date>(json, { serializer })
+    expect(copy.get('epoch')).toEqual(new Date(0))
+  })
+
+  it('round-trips Buffers and LRUSizedArrays in a sized map', () => {
+    const bytes = randomBytes(64)
+    const map = new LRUSizedMap<string>(1024, [
+      ['buffer', bytes],
+      ['string', 'hello'],
+      ['array', new LRUSizedArray(['a', Buffer.from('bc')])],
+    ])
+    const copy = LRUSizedMap.fromJSON<string>(JSON.stringify(map))
+    expect(copy.peek('buffer')).toEqual(bytes)
+    expect(copy.peek('string')).toBe('hello')
+    const array = copy.peek('array') as LRUSizedArray<any>
+    expect(array).toBeInstanceOf(LRUSizedArray)
+    expect(array.items).toEqual(['a', Buffer.from('bc')])
+    expect(copy.used).toBe(map.used)
+    expect(copy.capacity).toBe(1024)
+  })
+
+  it('rejects snapshots of another type or a newer version', () => {
+    const snapshot = new LRUMap<string, string>(5, [['a', 'A']]).dump()
+    expect(() => LRUSizedMap.load(snapshot)).toThrowError('Cannot load a snapshot of LRUMap into LRUSizedMap')
+    expect(() => LRUMap.load({ ...snapshot, version: SNAPSHOT_VERSION + 1 })).toThrowError(/^Unsupported snapshot version/)
+    expect(() => LRUMap.load('{}')).toThrowError(/^Invalid snapshot/)
+  })
+
+  it('rejects snapshots with an invalid capacity or malformed entries', () => {
+    const snapshot = new LRUMap<string, string>(5, [['a', 'A']]).dump()
+    expect(() => LRUMap.load({ version: 1, type: 'LRUMap', entries: [] } as unknown as LRUSnapshot)).toThrowError('Invalid snapshot. Invalid capacity (undefined) of LRUMap')
+    expect(() => LRUMap.load({ ...snapshot, capacity: 1 })).toThrowError(/^Invalid snapshot/)
+    expect(() => LRUMap.load({ ...snapshot, capacity: 2.5 })).toThrowError('Invalid snapshot. Invalid capacity (2.5) of LRUMap')
+    expect(() => LRUSizedMap.load({ ...snapshot, type: 'LRUSizedMap', capacity: -1 })).toThrowError(/^Invalid snapshot/)
+    expect(() => LRUMap.load({ ...snapshot, entries: [null] })).toThrowError('Invalid snapshot. Malformed entry at index 0')
+    expect(() => LRUMap.load({ ...snapshot, entries: [{ key: 'a' } as SnapshotEntry<string>] })).toThrowError(/^Invalid snapshot/)
+    expect(() => LRUMap.load({ ...snapshot, entries: [{ key: 'a', value: 'A', expiresAt: '1' as unknown as number }] })).toThrowError(/^Invalid snapshot/)
+    expect(() => new LRUMap(5).restore({ ...snapshot, capacity: undefined })).toThrowError(/^Invalid snapshot/)
+    expect(LRUMap.load({ ...snapshot, capacity: -1 }).capacity).toBe(-1)
+  })
+
+  it('refuses to serialize symbol keys', () => {
+    const map = new LRUMap<symbol, string>(5, [[Symbol('a'), 'A']])
+    expect(() => map.dump()).toThrowError(/symbol key/)
+  })
+})
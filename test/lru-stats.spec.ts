@@ -0,0 +1,104 @@
+import { LRUMap, LRUSizedMap } from '../src/LRUMap'
+
+describe('Check statistics of LRU maps', () => {
+
+  it('counts hits, misses and the hit ratio', () => {
+    const map = new LRUMap<string, string>(5, [['a', 'A'], ['b', 'B']], { stats: true })
+    map.get('a')
+    map.get('b')
+    map.lookup('a')
+    map.get('z')
+    map.peek('a')
+    map.has('z')
+    const stats = map.stats()
+    expect(stats.hits).toBe(3)
+    expect(stats.misses).toBe(1)
+    expect(stats.hitRatio).toBe(0.75)
+  })
+
+  it('counts expired lookups as misses', () => {
+    let now = 0
+    const map = new LRUMap<string, string>(5, [['a', 'A']], { stats: true, ttl: 10, allowStale: true, clock: () => now })
+    now = 10
+    expect(map.get('a')).toBe('A')
+    expect(map.stats().misses).toBe(1)
+    expect(map.stats().evictions.expire).toBe(1)
+  })
+
+  it('counts sets, overwrites and evictions by reason', () => {
+    const map = new LRUMap<string, string>(2, [['a', 'A'], ['b', 'B']], { stats: true })
+    map.set('b', 'BB')
+    map.set('c', 'C')
+    map.delete('b')
+    map.clear()
+    const stats = map.stats()
+    expect(stats.sets).toBe(4)
+    expect(stats.overwrites).toBe(1)
+    expect(stats.evictions).toEqual({ evict: 1, demote: 0, delete: 1, set: 1, clear: 1, expire: 0, reject: 0 })
+  })
+
+  it('tracks current and peak size and bytes used', () => {
+    const map = new LRUSizedMap<string, string>(10, [['a', 'AAAA'], ['b', 'BBBB']], { stats: true })
+    map.remove('a')
+    expect(map.stats()).toMatchObject({ size: 1, peakSize: 2, used: 4, peakUsed: 8 })
+    expect(new LRUMap(5, [['a', 'A']], { stats: true }).stats()).not.toHaveProperty('used')
+  })
+
+  it('counts fetches that load as misses', async () => {
+    const map = new LRUMap<string, string>(5, [], { stats: true, loader: key => key })
+    await map.fetch('a')
+    await map.fetch('a')
+    expect(map.stats()).toMatchObject({ hits: 1, misses: 1, sets: 1 })
+  })
+
+  it('resets statistics', () => {
+    const map = new LRUMap<string, string>(5, [['a', 'A'], ['b', 'B']], { stats: true })
+    map.get('a')
+    map.remove('a')
+    map.resetStats()
+    expect(map.stats()).toEqual({
+      hits: 0,
+      misses: 0,
+      sets: 0,
+      overwrites: 0,
+      evictions: { evict: 0, demote: 0, delete: 0, set: 0, clear: 0, expire: 0, reject: 0 },
+      hitRatio: 0,
+      size: 1,
+      peakSize: 1,
+    })
+  })
+
+  it('reports only the current size when statistics are disabled', () => {
+    const map = new LRUMap<string, string>(5, [['a', 'A']])
+    map.get('a')
+    expect(map.stats()).toMatchObject({ hits: 0, size: 1, peakSize: 1 })
+  })
+
+  it('emits hit, miss and evict events', () => {
+    const events = []
+    const map = new LRUMap<string, string>(2, [['a', 'A'], ['b', 'B']])
+    const onHit = (key: string) => events.push(['hit', key])
+    map
+      .on('hit', onHit)
+      .on('miss', key => events.push(['miss', key]))
+      .on('evict', (key, value, reason) => events.push(['evict', key, value, reason]))
+    map.get('a')
+    map.get('z')
+    map.set('c', 'C')
+    map.off('hit', onHit)
+    map.get('a')
+    expect(events).toEqual([
+      ['hit', 'a'],
+      ['miss', 'z'],
+      ['evict', 'b', 'B', 'evict'],
+    ])
+  })
+
+  it('emits evict events after the onEvict callback', () => {
+    const calls = []
+    const map = new LRUMap<string, string>(5, [['a', 'A']], { onEvict: key => calls.push(['onEvict', key]) })
+    map.on('evict', key => calls.push(['event', key]))
+    map.delete('a')
+    expect(calls).toEqual([['onEvict', 'a'], ['event', 'a']])
+  })
+})
@@ -0,0 +1,157 @@
+import { LRUMap, LRUSizedMap } from '../src/LRUMap'
+
+function flush() {
+  return new Promise(resolve => setImmediate(resolve))
+}
+
+describe('Check stale-while-revalidate of LRU maps', () => {
+
+  let now: number
+  const clock = () => now
+
+  beforeEach(() => {
+    now = 0
+  })
+
+  it('reports fresh entries until they go stale', () => {
+    const map = new LRUMap<string, string>(5, [['a', 'A']], { staleAfter: 100, clock })
+    now = 99
+    expect(map.lookup('a')).toEqual({ value: 'A', state: 'fresh' })
+    now = 100
+    expect(map.lookup('a')).toEqual({ value: 'A', state: 'stale' })
+  })
+
+  it('returns the stale value while refreshing in the background', async () => {
+    const refresher = jest.fn(async (key: string) => `${key.toUpperCase()}2`)
+    const map = new LRUMap<string, string>(5, [['a', 'A']], { staleAfter: 100, refresher, clock })
+    now = 100
+    expect(map.get('a')).toBe('A')
+    expect(refresher).toHaveBeenCalledTimes(0)
+    await flush()
+    expect(refresher).toHaveBeenCalledTimes(1)
+    expect(map.lookup('a')).toEqual({ value: 'A2', state: 'fresh' })
+  })
+
+  it('reports a refresh in flight and does not start another', async () => {
+    let resolve: (value: string) => void
+    const refresher = jest.fn(() => new Promise<string>(res => resolve = res))
+    const map = new LRUMap<string, string>(5, [['a', 'A']], { staleAfter: 100, refresher, clock })
+    now = 100
+    expect(map.lookup('a').state).toBe('stale')
+    expect(map.lookup('a').state).toBe('refreshing')
+    await flush()
+    expect(map.lookup('a')).toEqual({ value: 'A', state: 'refreshing' })
+    expect(refresher).toHaveBeenCalledTimes(1)
+    resolve('A2')
+    await flush()
+    expect(map.lookup('a')).toEqual({ value: 'A2', state: 'fresh' })
+  })
+
+  it('does not refresh on peek', async () => {
+    const refresher = jest.fn(async () => 'A2')
+    const map = new LRUMap<string, string>(5, [['a', 'A']], { staleAfter: 100, refresher, clock })
+    now = 100
+    expect(map.peek('a')).toBe('A')
+    await flush()
+    expect(refresher).not.toHaveBeenCalled()
+  })
+
+  it('keeps the stale value when a refresh fails', async () => {
+    const onRefreshError = jest.fn()
+    const error = new Error('Backend down')
+    const map = new LRUMap<string, string>(5, [['a', 'A']], {
+      staleAfter: 100,
+      refresher: () => Promise.reject(error),
+      onRefreshError,
+      cacheRejections: 1000,
+      clock,
+    })
+    now = 100
+    expect(() => map.get('a')).not.toThrow()
+    await flush()
+    expect(onRefreshError).toHaveBeenCalledWith('a', error)
+    expect(map.lookup('a')).toEqual({ value: 'A', state: 'stale' })
+    map.remove('a')
+    await expect(map.fetch('a', async () => 'A3')).resolves.toBe('A3')
+  })
+
+  it('does not surface a throwing onRefreshError as an unhandled rejection', async () => {
+    const unhandled = jest.fn()
+    process.on('unhandledRejection', unhandled)
+    const map = new LRUMap<string, string>(5, [['a', 'A']], {
+      staleAfter: 100,
+      refresher: () => Promise.reject(new Error('Backend down')),
+      onRefreshError: () => {
+        throw new Error('Reporter down')
+      },
+      clock,
+    })
+    now = 100
+    map.get('a')
+    await flush()
+    await flush()
+    process.off('unhandledRejection', unhandled)
+    expect(unhandled).not.toHaveBeenCalled()
+  })
+
+  it('refreshes entries with their own ttl and staleAfter', async () => {
+    const map = new LRUMap<string, string>(5, [], { refresher: async key => key.toUpperCase(), clock })
+    map.set('a', 'old', { ttl: 1000, staleAfter: 100 })
+    now = 100
+    map.get('a')
+    await flush()
+    now = 150
+    expect(map.lookup('a')).toEqual({ value: 'A', state: 'fresh' })
+    now = 200
+    expect(map.lookup('a').state).toBe('stale')
+    await flush()
+    now = 1100
+    expect(map.lookup('a').state).toBe('stale')
+    now = 1300
+    expect(map.lookup('a').state).toBe('expired')
+  })
+
+  it('keeps the tags of refreshed entries', async () => {
+    const map = new LRUMap<string, string>(5, [], { staleAfter: 100, refresher: async key => key.toUpperCase(), clock })
+    map.set('a', 'old', { tags: ['letters'] })
+    now = 100
+    map.get('a')
+    await flush()
+    expect(map.peek('a')).toBe('A')
+    expect(map.invalidateTag('letters')).toBe(1)
+    expect(map.has('a')).toBe(false)
+  })
+
+  it('applies a per-entry staleAfter', () => {
+    const map = new LRUMap<string, string>(5, [], { staleAfter: 100, clock })
+    map.set('a', 'A', { staleAfter: 500 })
+    map.set('b', 'B', { staleAfter: 0 })
+    now = 200
+    expect(map.lookup('a').state).toBe('fresh')
+    expect(map.lookup('b').state).toBe('fresh')
+    now = 500
+    expect(map.lookup('a').state).toBe('stale')
+  })
+
+  it('expires entries past their ttl instead of refreshing them', async () => {
+    const refresher = jest.fn(async () => 'A2')
+    const map = new LRUMap<string, string>(5, [['a', 'A']], { staleAfter: 100, ttl: 200, refresher, clock })
+    now = 200
+    expect(map.lookup('a')).toEqual({ value: null, state: 'expired' })
+    await flush()
+    expect(refresher).not.toHaveBeenCalled()
+  })
+
+  it('keeps byte accounting correct when refreshed', async () => {
+    const map = new LRUSizedMap<string, string>(16, [['a', 'AA']], { staleAfter: 100, refresher: async () => 'AAAAAA', clock })
+    now = 100
+    map.get('a')
+    await flush()
+    expect(map.used).toBe(6)
+  })
+
+  it('throws on an invalid staleAfter', () => {
+    expect(() => new LRUMap(5, [], { staleAfter: -1 })).toThrowError(/^Invalid staleAfter/)
+    expect(() => new LRUMap(5).set('a', 'A', { staleAfter: NaN })).toThrowError(/^Invalid staleAfter/)
+  })
+})
@@ -0,0 +1,116 @@
+import { LRUMap, LRUSizedMap } from '../src/LRUMap'
+
+describe('Check bulk invalidation', () => {
+
+  it('invalidates the entries of a tag', () => {
+    const evicted: string[] = []
+    const map = new LRUMap<string, string>(10, [], { onEvict: (key, value, reason) => evicted.push(`${key}:${reason}`) })
+    map.set('user:42:profile', 'p', { tags: ['user:42'] })
+    map.set('user:42:avatar', 'a', { tags: ['user:42', 'images'] })
+    map.set('user:7:avatar', 'b', { tags: ['user:7', 'images'] })
+    map.set('home', 'h')
+    expect(map.invalidateTag('user:42')).toBe(2)
+    expect([...map.keys()]).toEqual(['home', 'user:7:avatar'])
+    expect(evicted).toEqual(['user:42:profile:delete', 'user:42:avatar:delete'])
+    expect(map.invalidateTag('user:42')).toBe(0)
+    expect(map.invalidateTag('images')).toBe(1)
+    expect(map.invalidateTag('unknown')).toBe(0)
+  })
+
+  it('replaces the tags of a key when it is set', () => {
+    const map = new LRUMap<string, number>(10)
+    map.set('a', 1, { tags: ['x'] })
+    map.set('a', 2, { tags: ['y'] })
+    map.set('b', 3, { tags: ['x'] })
+    map.set('b', 4)
+    expect(map.invalidateTag('x')).toBe(0)
+    expect(map.invalidateTag('y')).toBe(1)
+    expect([...map.keys()]).toEqual(['b'])
+  })
+
+  it('forgets the tags of entries removed otherwise', () => {
+    const map = new LRUMap<string, number>(2)
+    map.set('a', 1, { tags: ['x'] })
+    map.set('b', 2, { tags: ['x'] })
+    map.set('c', 3, { tags: ['x'] })
+    map.delete('b')
+    expect(map.invalidateTag('x')).toBe(1)
+    map.set('d', 4, { tags: ['x'] })
+    map.clear()
+    map.set('d', 5)
+    expect(map.invalidateTag('x')).toBe(0)
+    expect(map.get('d')).toBe(5)
+  })
+
+  it('deletes by prefix and by predicate', () => {
+    const map = new LRUMap<string | number, number>(10, [['user:1:a', 1], ['user:1:b', 2], ['user:10:a', 3], [1, 4]])
+    expect(map.deleteByPrefix('user:1:')).toBe(2)
+    expect([...map.keys()]).toEqual([1, 'user:10:a'])
+    expect(map.deleteWhere(value => value > 3)).toBe(1)
+    expect([...map.keys()]).toEqual(['user:10:a'])
+  })
+
+  it('leaves the map untouched when a predicate throws', () => {
+    const map = new LRUMap<string, number>(10, [['a', 1], ['b', 2]])
+    expect(() => map.deleteWhere((value, key) => {
+      if (key === 'a')
+        throw new Error('failed')
+      return true
+    })).toThrow('failed')
+    expect(map.size).toBe(2)
+  })
+
+  it('keeps the bytes used of sized maps', () => {
+    const map = new LRUSizedMap<string, string>(100)
+    map.set('user:1:a', 'aaaa', { tags: ['user:1'] })
+    map.set('user:1:b', 'bb', { tags: ['user:1'] })
+    map.set('user:2:a', 'ccc', { tags: ['user:2'] })
+    map.set('other', 'd')
+    expect(map.used).toBe(10)
+    map.invalidateTag('user:1')
+    expect(map.used).toBe(4)
+    map.deleteByPrefix('user:')
+    expect(map.used).toBe(1)
+    map.deleteWhere(() => true)
+    expect(map.used).toBe(0)
+    expect(map.size).toBe(0)
+  })
+
+  it('invalidates values held weakly', () => {
+    const map = new LRUMap<string, object>(2, [], { weakEvicted: true })
+    const values = [{ a: 1 }, { b: 2 }, { c: 3 }, { d: 4 }]
+    map.set('user:1:a', values[0], { tags: ['user:1'] })
+    map.set('user:2:b', values[1], { tags: ['user:2'] })
+    map.set('c', values[2])
+    map.set('d', values[3])
+    expect(map.weakSize).toBe(2)
+    map.invalidateTag('user:1')
+    map.deleteByPrefix('user:2')
+    expect(map.get('user:1:a')).toBeNull()
+    expect(map.get('user:2:b')).toBeNull()
+  })
+
+  it('keeps tags of resurrected, fetched and restored entries', async () => {
+    const values = [{ a: 1 }, { b: 2 }, { c: 3 }]
+    const weak = new LRUMap<string, object>(2, [], { weakEvicted: true })
+    weak.set('a', values[0], { tags: ['x'] })
+    weak.set('b', values[1])
+    weak.set('c', values[2])
+    expect(weak.get('a')).toBe(values[0])
+    expect(weak.invalidateTag('x')).toBe(1)
+
+    const map = new LRUMap<string, number>(10)
+    await map.fetch('a', () => 1, { tags: ['x'] })
+    const copy = new LRUMap<string, number>(10)
+    copy.restore(JSON.stringify(map))
+    expect(copy.invalidateTag('x')).toBe(1)
+    expect(map.invalidateTag('x')).toBe(1)
+  })
+
+  it('validates tags', () => {
+    const map = new LRUMap<string, number>(10)
+    expect(() => map.set('a', 1, { tags: 'x' as unknown as string[] })).toThrow('Invalid tags (x)')
+    expect(() => map.set('a', 1, { tags: [1 as unknown as string] })).toThrow('Must be an array of strings')
+    expect(map.has('a')).toBe(false)
+  })
+})
@@ -0,0 +1,194 @@
+import { mkdtempSync, readdirSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { DirectoryStore } from '../src/DirectoryStore'
+import { LRUMap, LRUSizedMap } from '../src/LRUMap'
+import { MemoryStore, StoredValue } from '../src/SecondaryStore'
+import { bufferSafeSerializer } from '../src/Snapshot'
+import { TieredCache } from '../src/TieredCache'
+
+describe('Check tiered caches', () => {
+
+  it('writes through to the secondary store', async () => {
+    const store = new MemoryStore<string, number>()
+    const cache = new TieredCache(new LRUMap<string, number>(2), store)
+    await cache.set('a', 1)
+    expect(await store.get('a')).toEqual({ value: 1, expiresAt: 0 })
+    await cache.set('b', 2)
+    await cache.set('c', 3)
+    expect(cache.memory.has('a')).toBe(false)
+    expect(store.size).toBe(3)
+  })
+
+  it('spills evicted values with write-back', async () => {
+    const store = new MemoryStore<string, number>()
+    const cache = new TieredCache(new LRUMap<string, number>(2), store, { writeMode: 'back' })
+    await cache.set('a', 1)
+    await cache.set('b', 2)
+    expect(store.size).toBe(0)
+    await cache.set('c', 3)
+    await cache.flush()
+    expect([...store.keys()].sort()).toEqual(['a', 'b', 'c'])
+  })
+
+  it('reads values being spilled before they are written', async () => {
+    const cache = new TieredCache(new LRUMap<string, number>(2), new MemoryStore(), { writeMode: 'back' })
+    await cache.set('a', 1)
+    await cache.set('b', 2)
+    await cache.set('c', 3)
+    expect(await cache.get('a')).toBe(1)
+    expect([...cache.memory.keys()]).toEqual(['a', 'c'])
+  })
+
+  it('promotes hits of the secondary store back into memory', async () => {
+    const cache = new TieredCache(new LRUMap<string, number>(2), new MemoryStore())
+    await cache.set('a', 1)
+    await cache.set('b', 2)
+    await cache.set('c', 3)
+    expect(cache.memory.has('a')).toBe(false)
+    expect(await cache.get('a')).toBe(1)
+    expect([...cache.memory.keys()]).toEqual(['a', 'c'])
+    expect(await cache.get('z')).toBeNull()
+  })
+
+  it('shares reads of a key, and does not promote a read raced by a write', async () => {
+    const store = new MemoryStore<string, number>()
+    await store.set('a', 1)
+    const get = jest.spyOn(store, 'get')
+    const cache = new TieredCache(new LRUMap<string, number>(2), store)
+    const reads = [cache.get('a'), cache.get('a')]
+    expect(get).toHaveBeenCalledTimes(1)
+    expect(await Promise.all(reads)).toEqual([1, 1])
+    await cache.delete('a')
+    let release: (stored: StoredValue<number>) => void
+    get.mockImplementationOnce(() => new Promise(resolve => release = resolve))
+    const read = cache.get('b')
+    await cache.set('b', 3)
+    release({ value: 2, expiresAt: 0 })
+    expect(await read).toBe(3)
+    expect(cache.memory.get('b')).toBe(3)
+  })
+
+  it('deletes and clears both tiers', async () => {
+    const store = new MemoryStore<string, number>()
+    const cache = new TieredCache(new LRUMap<string, number>(2), store, { writeMode: 'back' })
+    await cache.set('a', 1)
+    await cache.set('b', 2)
+    await cache.set('c', 3)
+    expect(await cache.delete('a')).toBe(true)
+    expect(await cache.delete('a')).toBe(false)
+    expect(await cache.get('a')).toBeNull()
+    await cache.clear()
+    expect(cache.memory.size).toBe(0)
+    expect(store.size).toBe(0)
+  })
+
+  it('spills values accommodate evicts', async () => {
+    const store = new MemoryStore<string, string>()
+    const memory = new LRUSizedMap<string, string>(10, [['a', 'xxxx'], ['b', 'yyyy']])
+    const cache = new TieredCache(memory, store, { writeMode: 'back' })
+    memory.accommodate(4)
+    await cache.flush()
+    expect(await store.get('a')).toEqual({ value: 'xxxx', expiresAt: 0 })
+  })
+
+  it('expires values written through in both tiers', async () => {
+    let now = 0
+    const clock = () => now
+    const store = new MemoryStore<string, string>()
+    const cache = new TieredCache(new LRUMap<string, string>(2, [], { clock }), store, { clock })
+    await cache.set('a', 'A', { ttl: 100 })
+    await cache.set('b', 'B', { ttl: 100 })
+    await cache.set('c', 'C')
+    expect(await store.get('a')).toEqual({ value: 'A', expiresAt: 100 })
+    now = 50
+    expect(await cache.get('a')).toBe('A')
+    now = 100
+    expect(await cache.get('a')).toBeNull()
+    expect(await cache.get('b')).toBeNull()
+    now = 1e6
+    expect(await cache.get('a')).toBeNull()
+    expect(cache.memory.has('a')).toBe(false)
+  })
+
+  it('promotes values with the time they have left to live', async () => {
+    let now = 0
+    const clock = () => now
+    const store = new MemoryStore<string, string>()
+    const cache = new TieredCache(new LRUMap<string, string>(2, [], { clock }), store, { writeMode: 'back', clock })
+    await cache.set('a', 'A', { ttl: 100 })
+    await cache.set('b', 'B')
+    await cache.set('c', 'C')
+    await cache.flush()
+    expect(await store.get('a')).toEqual({ value: 'A', expiresAt: 100 })
+    now = 50
+    expect(await cache.get('a')).toBe('A')
+    expect(cache.memory.has('a')).toBe(true)
+    now = 100
+    expect(cache.memory.has('a')).toBe(false)
+    expect(await cache.get('a')).toBeNull()
+  })
+
+  it('reports spill failures', async () => {
+    const store = new MemoryStore<string, number>()
+    jest.spyOn(store, 'set').mockRejectedValue(new Error('disk full'))
+    const cache = new TieredCache(new LRUMap<string, number>(2), store, { writeMode: 'back' })
+    await cache.set('a', 1)
+    await cache.set('b', 2)
+    await cache.set('c', 3)
+    await expect(cache.flush()).rejects.toThrow('disk full')
+    const errors: unknown[] = []
+    const handled = new TieredCache(new LRUMap<string, number>(2), store, { writeMode: 'back', onError: error => errors.push(error) })
+    await handled.set('a', 1)
+    await handled.set('b', 2)
+    await handled.set('c', 3)
+    await expect(handled.close()).rejects.toThrow('disk full')
+    expect(errors).toHaveLength(1)
+  })
+
+  it('validates the write mode', () => {
+    expect(() => new TieredCache(new LRUMap(2), new MemoryStore(), { writeMode: 'around' as 'back' })).toThrow('Invalid writeMode \'around\'')
+  })
+
+  describe('with a directory store', () => {
+
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'lru-'))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('keeps values in files', async () => {
+      const store = new DirectoryStore<string, Buffer>(join(dir, 'l2'), { serializer: bufferSafeSerializer })
+      await store.set('a', Buffer.from('A'))
+      await store.set('b', Buffer.from('B'), 100)
+      expect(await store.get('a')).toEqual({ value: Buffer.from('A'), expiresAt: 0 })
+      expect(await store.get('b')).toEqual({ value: Buffer.from('B'), expiresAt: 100 })
+      expect(await store.get('c')).toBeUndefined()
+      expect(readdirSync(join(dir, 'l2'))).toHaveLength(2)
+      expect(await store.delete('a')).toBe(true)
+      expect(await store.delete('a')).toBe(false)
+      await store.clear()
+      expect(readdirSync(join(dir, 'l2'))).toEqual([])
+    })
+
+    it('backs a tiered cache', async () => {
+      const cache = new TieredCache(new LRUMap<number[], string>(2), new DirectoryStore<number[], string>(dir), { writeMode: 'back' })
+      const keys = [[1], [2], [3]]
+      for (const key of keys)
+        await cache.set(key, String(key))
+      await cache.flush()
+      expect(cache.memory.has(keys[0])).toBe(false)
+      expect(await cache.get(keys[0])).toBe('1')
+    })
+
+    it('rejects keys that cannot be serialized', async () => {
+      const store = new DirectoryStore<symbol, string>(dir)
+      await expect(store.set(Symbol('a'), 'A')).rejects.toThrow('Cannot store symbol key')
+    })
+  })
+})
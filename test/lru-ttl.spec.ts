@@ -0,0 +1,115 @@
+import { LRUMap, LRUSizedMap } from '../src/LRUMap'
+
+describe('Check expiration of LRU entries', () => {
+
+  let now: number
+  const clock = () => now
+
+  beforeEach(() => {
+    now = 1000
+  })
+
+  it('expires entries after the default ttl', () => {
+    const map = new LRUMap<string, string>(5, [['a', 'A']], { ttl: 100, clock })
+    expect(map.get('a')).toBe('A')
+    now += 99
+    expect(map.get('a')).toBe('A')
+    now += 1
+    expect(map.get('a')).toBeNull()
+    expect(map.size).toBe(0)
+  })
+
+  it('treats expired entries as absent for peek and has', () => {
+    const map = new LRUMap<string, string>(5, [['a', 'A'], ['b', 'B']], { ttl: 100, clock })
+    now += 100
+    expect(map.has('a')).toBe(false)
+    expect(map.peek('b')).toBeNull()
+    expect(map.size).toBe(0)
+  })
+
+  it('never expires entries without a ttl', () => {
+    const map = new LRUMap<string, string>(5, [['a', 'A']], { clock })
+    now += 1e9
+    expect(map.get('a')).toBe('A')
+  })
+
+  it('applies a per-entry ttl that overrides the default', () => {
+    const map = new LRUMap<string, string>(5, [], { ttl: 100, clock })
+    map.set('a', 'A', { ttl: 500 })
+    map.set('b', 'B', { ttl: 0 })
+    map.set('c', 'C')
+    now += 200
+    expect(map.has('a')).toBe(true)
+    expect(map.has('b')).toBe(true)
+    expect(map.has('c')).toBe(false)
+    now += 300
+    expect(map.has('a')).toBe(false)
+    expect(map.has('b')).toBe(true)
+  })
+
+  it('resets the ttl when an entry is overwritten', () => {
+    const map = new LRUMap<string, string>(5, [], { ttl: 100, clock })
+    map.set('a', 'A')
+    now += 80
+    map.set('a', 'AA')
+    now += 80
+    expect(map.get('a')).toBe('AA')
+  })
+
+  it('reports lookup states', () => {
+    const map = new LRUMap<string, string>(5, [['a', 'A']], { ttl: 100, clock })
+    expect(map.lookup('a')).toEqual({ value: 'A', state: 'fresh' })
+    expect(map.lookup('z')).toEqual({ value: null, state: 'miss' })
+    now += 100
+    expect(map.lookup('a')).toEqual({ value: null, state: 'expired' })
+    expect(map.lookup('a')).toEqual({ value: null, state: 'miss' })
+  })
+
+  it('returns a stale value once when allowStale is set', () => {
+    const map = new LRUMap<string, string>(5, [['a', 'A'], ['b', 'B']], { ttl: 100, allowStale: true, clock })
+    now += 100
+    expect(map.lookup('a')).toEqual({ value: 'A', state: 'expired' })
+    expect(map.get('a')).toBeNull()
+    expect(map.peek('b')).toBe('B')
+    expect(map.peek('b')).toBeNull()
+  })
+
+  it('purges all stale entries explicitly', () => {
+    const map = new LRUMap<string, string>(5, [], { clock })
+    map.set('a', 'A', { ttl: 100 })
+    map.set('b', 'B', { ttl: 200 })
+    map.set('c', 'C')
+    now += 150
+    expect(map.purgeStale()).toBe(1)
+    expect(map.size).toBe(2)
+    expect([...map.keys()]).toEqual(['c', 'b'])
+  })
+
+  it('skips expired entries when iterating', () => {
+    const map = new LRUMap<string, string>(5, [], { clock })
+    map.set('a', 'A', { ttl: 100 })
+    map.set('b', 'B')
+    now += 100
+    expect([...map.entries()]).toEqual([['b', 'B']])
+  })
+
+  it('keeps byte accounting correct when sized entries expire', () => {
+    const map = new LRUSizedMap<string, string>(100, [], { ttl: 100, clock })
+    map.set('a', 'AAAA')
+    map.set('b', 'BB', { ttl: 500 })
+    expect(map.used).toBe(6)
+    now += 100
+    expect(map.get('a')).toBeNull()
+    expect(map.used).toBe(2)
+    now += 400
+    expect(map.purgeStale()).toBe(1)
+    expect(map.used).toBe(0)
+  })
+
+  it('throws on an invalid ttl', () => {
+    expect(() => new LRUMap(5, [], { ttl: -1 })).toThrowError(/^Invalid ttl/)
+    const map = new LRUSizedMap<string, string>(100)
+    expect(() => map.set('a', 'A', { ttl: NaN })).toThrowError(/^Invalid ttl/)
+    expect(map.used).toBe(0)
+  })
+})
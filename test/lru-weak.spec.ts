@@ -0,0 +1,119 @@
+import { setFlagsFromString } from 'v8'
+import { runInNewContext } from 'vm'
+import { LRUMap } from '../src/LRUMap'
+
+setFlagsFromString('--expose-gc')
+const gc: () => void = global.gc ?? runInNewContext('gc')
+
+const tick = () => new Promise(resolve => setImmediate(resolve))
+
+/**
+ * Collects garbage until the condition holds, since finalizers run
+ * in a later task than the collection itself
+ */
+async function collectUntil(condition: () => boolean) {
+  for (let i = 0; i < 20 && !condition(); i++) {
+    await tick()
+    gc()
+    await tick()
+  }
+}
+
+interface Doc {
+  id: string
+}
+
+describe('Check weakly held evicted values of LRU Map', () => {
+
+  it('demotes evicted values to the weak tier', () => {
+    const a = { id: 'a' }
+    const map = new LRUMap<string, Doc>(2, [['a', a], ['b', { id: 'b' }], ['c', { id: 'c' }]], { weakEvicted: true })
+    expect(map.size).toBe(2)
+    expect(map.weakSize).toBe(1)
+    expect(map.has('a')).toBe(false)
+    expect(map.peek('a')).toBeNull()
+    expect([...map.keys()]).toEqual(['c', 'b'])
+  })
+
+  it('reports demoted values apart from dropped ones', () => {
+    const evicted: string[] = []
+    const onEvict = (key: string, value: unknown, reason: string) => evicted.push(`${key}:${reason}`)
+    const map = new LRUMap<string, unknown>(2, [['a', { id: 'a' }], ['b', 'B'], ['c', { id: 'c' }], ['d', { id: 'd' }]], { weakEvicted: true, onEvict })
+    expect(evicted).toEqual(['a:demote', 'b:evict'])
+    expect(map.get('a')).toEqual({ id: 'a' })
+    expect(evicted).toEqual(['a:demote', 'b:evict', 'c:demote'])
+  })
+
+  it('brings a live weak value back into the map on get', () => {
+    const a = { id: 'a' }
+    const map = new LRUMap<string, Doc>(2, [['a', a], ['b', { id: 'b' }], ['c', { id: 'c' }]], { weakEvicted: true })
+    expect(map.get('a')).toBe(a)
+    expect([...map.keys()]).toEqual(['a', 'c'])
+    expect(map.weakSize).toBe(1)
+    expect(map.lookup('b').state).toBe('fresh')
+  })
+
+  it('cleans up the keys of collected values', async () => {
+    const map = new LRUMap<string, Doc>(2, [], { weakEvicted: true })
+    for (let i = 0; i < 10; i++)
+      map.set(i.toString(), { id: i.toString() })
+    expect(map.weakSize).toBe(8)
+    await collectUntil(() => map.weakSize === 0)
+    expect(map.weakSize).toBe(0)
+    expect(map.get('0')).toBeNull()
+    expect(map.size).toBe(2)
+  })
+
+  it('misses once a weak value was collected', async () => {
+    const map = new LRUMap<string, Doc>(2, [], { weakEvicted: true })
+    map.set('a', { id: 'a' })
+    map.set('b', { id: 'b' })
+    map.set('c', { id: 'c' })
+    await collectUntil(() => map.weakSize === 0)
+    expect(map.lookup('a')).toEqual({ value: null, state: 'miss' })
+  })
+
+  it('drops values that cannot be held weakly', () => {
+    const map = new LRUMap<string, unknown>(2, [['a', 'A'], ['b', 1], ['c', null], ['d', () => 1]], { weakEvicted: true })
+    expect(map.weakSize).toBe(0)
+    map.set('e', {})
+    expect(map.weakSize).toBe(0)
+    map.set('f', {})
+    expect(map.weakSize).toBe(1)
+  })
+
+  it('forgets weak values that are set, deleted or cleared', () => {
+    const docs = ['a', 'b', 'c', 'd', 'e'].map(id => ({ id }))
+    const map = new LRUMap<string, Doc>(2, docs.map(doc => [doc.id, doc]), { weakEvicted: true })
+    expect(map.weakSize).toBe(3)
+    map.set('a', { id: 'A' })
+    expect(map.get('a')).toEqual({ id: 'A' })
+    expect(map.delete('b')).toBe(false)
+    expect(map.get('b')).toBeNull()
+    map.clear()
+    expect(map.weakSize).toBe(0)
+    expect(map.get('c')).toBeNull()
+  })
+
+  it('does not bring back expired values', () => {
+    let now = 0
+    const a = { id: 'a' }
+    const map = new LRUMap<string, Doc>(2, [], { weakEvicted: true, ttl: 100, clock: () => now })
+    map.set('a', a)
+    map.set('b', { id: 'b' })
+    map.set('c', { id: 'c' })
+    now = 50
+    expect(map.get('a')).toBe(a)
+    map.set('d', { id: 'd' })
+    map.set('e', { id: 'e' })
+    now = 100
+    expect(map.get('a')).toBeNull()
+  })
+
+  it('holds nothing weakly unless enabled', () => {
+    const a = { id: 'a' }
+    const map = new LRUMap<string, Doc>(2, [['a', a], ['b', { id: 'b' }], ['c', { id: 'c' }]])
+    expect(map.weakSize).toBe(0)
+    expect(map.get('a')).toBeNull()
+  })
+})
@@ -0,0 +1,241 @@
+import { MessageChannel } from 'worker_threads'
+import { LRUMap } from '../src/LRUMap'
+import { SharedArenaMap } from '../src/SharedArenaMap'
+import { CacheClient, CacheCoordinator } from '../src/WorkerCache'
+
+describe('Check caches shared across worker threads', () => {
+
+  let coordinator: CacheCoordinator<string, number>
+  let clients: CacheClient<string, number>[]
+
+  function connect(): CacheClient<string, number> {
+    const client = new CacheClient<string, number>(coordinator.connect())
+    clients.push(client)
+    return client
+  }
+
+  beforeEach(() => {
+    coordinator = new CacheCoordinator(new LRUMap<string, number>(3))
+    clients = []
+  })
+
+  afterEach(() => {
+    for (const client of clients)
+      client.close()
+    coordinator.close()
+  })
+
+  it('gets, sets and removes values of the coordinator\'s map', async () => {
+    const a = connect()
+    const b = connect()
+    await a.set('x', 1)
+    expect(await b.get('x')).toBe(1)
+    expect(await b.has('x')).toBe(true)
+    expect(await b.peek('y')).toBeNull()
+    expect(await b.remove('x')).toBe(1)
+    expect(await a.get('x')).toBeNull()
+    expect(coordinator.map.size).toBe(0)
+  })
+
+  it('batches the requests made in the same tick', async () => {
+    const client = connect()
+    const { port1, port2 } = new MessageChannel()
+    coordinator.attach(port1)
+    const batched = new CacheClient<string, number>(port2)
+    clients.push(batched)
+    const post = jest.spyOn(port2, 'postMessage')
+    const results = await Promise.all([batched.set('a', 1), batched.set('b', 2), batched.get('a'), batched.get('c')])
+    expect(results).toEqual([undefined, undefined, 1, null])
+    expect(post).toHaveBeenCalledTimes(1)
+    expect(await client.get('b')).toBe(2)
+  })
+
+  it('splits batches at maxBatchSize', async () => {
+    const { port1, port2 } = new MessageChannel()
+    coordinator.attach(port1)
+    const client = new CacheClient<string, number>(port2, { maxBatchSize: 2 })
+    clients.push(client)
+    const post = jest.spyOn(port2, 'postMessage')
+    await Promise.all([client.set('a', 1), client.set('b', 2), client.set('c', 3)])
+    expect(post).toHaveBeenCalledTimes(2)
+  })
+
+  it('shares the load of a key fetched by several workers', async () => {
+    const a = connect()
+    const b = connect()
+    const loader = jest.fn(async (key: string) => key.length)
+    const other = jest.fn(async () => 0)
+    const values = await Promise.all([a.fetch('abc', loader), b.fetch('abc', other)])
+    expect(values).toEqual([3, 3])
+    expect(loader).toHaveBeenCalledTimes(1)
+    expect(other).not.toHaveBeenCalled()
+    expect(coordinator.map.get('abc')).toBe(3)
+    expect(await b.fetch('abc', other)).toBe(3)
+  })
+
+  it('fetches with the tags of the entry', async () => {
+    const client = connect()
+    expect(await client.fetch('a', async () => 1, { tags: ['odd'] })).toBe(1)
+    expect(coordinator.map.invalidateTag('odd')).toBe(1)
+    expect(coordinator.map.has('a')).toBe(false)
+  })
+
+  it('fetches with the map\'s own loader', async () => {
+    coordinator = new CacheCoordinator(new LRUMap<string, number>(3, [], { loader: key => key.length * 2 }))
+    const client = connect()
+    expect(await client.fetch('ab')).toBe(4)
+  })
+
+  it('rejects with the errors of the coordinator and of loads', async () => {
+    const client = connect()
+    await expect(client.fetch('a', async () => {
+      throw new TypeError('unavailable')
+    })).rejects.toThrow('unavailable')
+    await expect(client.fetch('a')).rejects.toThrow('No loader available to fetch key \'a\'')
+    await expect(client.set('a', 1, { ttl: -1 })).rejects.toThrow('Invalid ttl (-1)')
+  })
+
+  it('aborts the wait of a fetch', async () => {
+    const client = connect()
+    const controller = new AbortController()
+    let release: (value: number) => void
+    const fetching = client.fetch('a', () => new Promise(resolve => release = resolve), { signal: controller.signal })
+    const waiting = connect().fetch('a')
+    await new Promise(resolve => setTimeout(resolve, 10))
+    controller.abort()
+    await expect(fetching).rejects.toThrow()
+    release(1)
+    expect(await waiting).toBe(1)
+    await new Promise(resolve => setTimeout(resolve, 10))
+    expect(coordinator.map.get('a')).toBe(1)
+  })
+
+  it('rejects values that cannot be cloned', async () => {
+    const client = connect()
+    coordinator.map.set('fn', { fn: () => 1 } as unknown as number)
+    const results = await Promise.allSettled([client.get('fn'), client.has('fn')])
+    expect(results[0].status).toBe('rejected')
+    expect(results[1]).toEqual({ status: 'fulfilled', value: true })
+    await expect(client.fetch('x', async () => ({ fn: () => 1 }) as unknown as number)).rejects.toThrow('could not be cloned')
+    expect(coordinator.map.has('x')).toBe(false)
+    await expect(client.fetch('fn', async () => 1)).rejects.toThrow('could not be cloned')
+  })
+
+  it('aborts the load of a worker once every waiter aborts', async () => {
+    const client = connect()
+    const controller = new AbortController()
+    let loadSignal: AbortSignal
+    const fetching = client.fetch('a', (key, { signal }) => {
+      loadSignal = signal
+      return new Promise(() => undefined)
+    }, { signal: controller.signal })
+    await new Promise(resolve => setTimeout(resolve, 10))
+    expect(loadSignal.aborted).toBe(false)
+    controller.abort()
+    await expect(fetching).rejects.toThrow()
+    await new Promise(resolve => setTimeout(resolve, 10))
+    expect(loadSignal.aborted).toBe(true)
+  })
+
+  it('drops a fetch aborted before it is sent', async () => {
+    const client = connect()
+    const controller = new AbortController()
+    const loader = jest.fn(async () => 1)
+    const fetching = client.fetch('a', loader, { signal: controller.signal })
+    controller.abort()
+    await expect(fetching).rejects.toThrow()
+    await new Promise(resolve => setTimeout(resolve, 10))
+    expect(loader).not.toHaveBeenCalled()
+    expect(await client.has('a')).toBe(false)
+  })
+
+  it('rejects pending requests once closed', async () => {
+    const client = connect()
+    const pending = client.get('a')
+    client.close()
+    await expect(pending).rejects.toThrow('The cache client was closed')
+  })
+
+  it('validates its options', () => {
+    const { port1, port2 } = new MessageChannel()
+    expect(() => new CacheClient(port1, { batchDelay: -1 })).toThrow('Invalid batchDelay (-1)')
+    expect(() => new CacheClient(port2, { maxBatchSize: 0 })).toThrow('Invalid maxBatchSize (0)')
+    port1.close()
+  })
+})
+
+describe('Check shared arena maps', () => {
+
+  it('copies values into shared memory', () => {
+    const map = new SharedArenaMap<string>(16)
+    const value = Buffer.from('abcd')
+    map.set('a', value)
+    const view = map.get('a')
+    expect(view).toEqual(value)
+    expect(view).not.toBe(value)
+    expect(view.buffer).toBe(map.buffer)
+    value.fill(0)
+    expect(map.get('a').toString()).toBe('abcd')
+  })
+
+  it('reuses the bytes of evicted and replaced values', () => {
+    const evicted: string[] = []
+    const map = new SharedArenaMap<string>(8, [], { onEvict: (key, value, reason) => evicted.push(`${key}:${reason}`) })
+    map.set('a', Buffer.from('aaaa'))
+    map.set('b', Buffer.from('bbbb'))
+    map.set('c', Buffer.from('cccc'))
+    expect(evicted).toEqual(['a:evict'])
+    expect(map.get('c').byteOffset).toBe(0)
+    map.set('b', Buffer.from('BB'))
+    map.set('d', Buffer.from('dd'))
+    expect([...map.entries()].map(([key, value]) => `${key}=${value}`)).toEqual(['d=dd', 'b=BB', 'c=cccc'])
+    expect(map.used).toBe(8)
+  })
+
+  it('evicts entries until a contiguous block is free', () => {
+    const map = new SharedArenaMap<string>(8)
+    for (const key of ['a', 'b', 'c', 'd'])
+      map.set(key, Buffer.from(key.repeat(2)))
+    map.delete('b')
+    map.delete('d')
+    map.set('e', Buffer.from('eeee'))
+    expect([...map.keys()]).toEqual(['e', 'c'])
+    expect(map.get('e').toString()).toBe('eeee')
+    expect(map.get('c').toString()).toBe('cc')
+  })
+
+  it('reports the values it holds after setting many', () => {
+    const map = new SharedArenaMap<string>(8)
+    expect(map.setMany([['a', Buffer.from('aaaa')], ['b', Buffer.from('bbbb')]])).toEqual([true, true])
+    expect(map.setMany([['c', Buffer.from('cccc')], ['d', Buffer.alloc(9)], ['c', Buffer.from('CC')]])).toEqual([false, false, true])
+    expect(map.get('c').toString()).toBe('CC')
+  })
+
+  it('skips values larger than the arena, and frees it when cleared', () => {
+    const map = new SharedArenaMap<string>(4, [['a', Buffer.from('aa')]])
+    map.set('b', Buffer.alloc(5))
+    expect(map.has('b')).toBe(false)
+    map.clear()
+    map.set('c', Buffer.from('cccc'))
+    expect(map.get('c').byteOffset).toBe(0)
+  })
+
+  it('posts views of shared memory without copying', async () => {
+    const map = new SharedArenaMap<string>(16, [['a', Buffer.from('abcd')]])
+    const { port1, port2 } = new MessageChannel()
+    const received = new Promise<Uint8Array>(resolve => port2.once('message', resolve))
+    port1.postMessage(map.get('a'))
+    const view = await received
+    expect(Object.prototype.toString.call(view.buffer)).toBe('[object SharedArrayBuffer]')
+    map.get('a').write('wxyz')
+    expect(Buffer.from(view).toString()).toBe('wxyz')
+    port1.close()
+  })
+
+  it('validates its arena', () => {
+    expect(() => new SharedArenaMap(1.5)).toThrow('Invalid maxBytes capacity (1.5)')
+    expect(() => new SharedArenaMap(8, [], { weakEvicted: true } as object)).toThrow('Invalid weakEvicted')
+    expect(() => new SharedArenaMap(8).setMaxBytes(9)).toThrow('Must not exceed the size of the arena (8)')
+    expect(() => new SharedArenaMap(8).set('a', 'a' as unknown as Buffer)).toThrow('only holds Buffers')
+  })
+})
@@ -0,0 +1,58 @@
+/**
+ * A seeded pseudo-random number generator, so traces are reproducible
+ */
+export function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * A hot set of keys read repeatedly, interleaved with long scans of keys
+ * read only once
+ */
+export function scanTrace(length: number): string[] {
+  const next = random(42)
+  const trace: string[] = []
+  let scanned = 0
+  while (trace.length < length) {
+    if (next() < 0.5) {
+      for (let i = 0; i < 10; i++)
+        trace.push(`hot-${Math.floor(next() * 60)}`)
+    } else {
+      for (let i = 0; i < 10; i++)
+        trace.push(`scan-${scanned++}`)
+    }
+  }
+  return trace
+}
+
+/**
+ * Keys read with a skewed popularity, where a few keys are read far
+ * more often than the rest
+ */
+export function skewedTrace(length: number): string[] {
+  const next = random(7)
+  const trace: string[] = []
+  while (trace.length < length)
+    trace.push(`key-${Math.floor(Math.pow(next(), 3) * 1000)}`)
+  return trace
+}
+
+/**
+ * Replays a trace against a map, setting each key that misses, and
+ * returns the ratio of hits
+ */
+export function hitRate(map: Map<string, string> & { get(key: string): string }, trace: string[]): number {
+  let hits = 0
+  for (const key of trace) {
+    if (map.get(key) !== null)
+      hits++
+    else
+      map.set(key, key)
+  }
+  return hits / trace.length
+}